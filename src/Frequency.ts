@@ -0,0 +1,121 @@
+/**
+ * A VHF airband radio channel, such as `118.505` or `121.800`.
+ *
+ * Channels are identified by their name, in MHz with three decimals. Channels with 25 kHz spacing are named after
+ * their frequency. Each 25 kHz block is also divided into three channels with 8.33 kHz spacing, named 5, 10 and 15 kHz
+ * above the block. For example, `118.005`, `118.010` and `118.015` are tuned to 118.000, 118.008 and 118.017 MHz.
+ * Names that are neither, such as `118.020` or `118.001`, are not valid channels.
+ */
+export class Frequency {
+    /**
+     * Lowest channel of the VHF airband, in kHz.
+     */
+    public static readonly MIN = 118_000;
+
+    /**
+     * Highest channel of the VHF airband, in kHz.
+     */
+    public static readonly MAX = 136_990;
+
+    /**
+     * @param channel The channel name, in kHz.
+     */
+    private constructor(private readonly channel: number) {}
+
+    /**
+     * Parse a channel.
+     *
+     * @example Frequency.parse("121.800")
+     * @example Frequency.parse(118.505)
+     *
+     * @param value Channel name, in MHz.
+     * @throws {@link !SyntaxError} If the value is not a number.
+     * @throws {@link !RangeError} If the value is outside the VHF airband, or is not a 25 kHz or 8.33 kHz channel.
+     */
+    public static parse(value: string | number): Frequency {
+        const mhz = typeof value === "number" ? value : Number.parseFloat(value);
+        if (typeof value === "string" && !/^\s*\d+(?:\.\d+)?\s*$/.test(value) || !Number.isFinite(mhz))
+            throw new SyntaxError(`Invalid frequency: ${value}`);
+
+        const channel = Math.round(mhz * 1000);
+        if (Math.abs(channel - mhz * 1000) > 1e-6)
+            throw new RangeError(`Frequency (${value}) must be a whole number of kHz.`);
+        if (channel < Frequency.MIN || channel > Frequency.MAX)
+            throw new RangeError(`Frequency (${value}) is outside the VHF airband (${Frequency.MIN / 1000}–${Frequency.MAX / 1000} MHz).`);
+        if (channel % 5 !== 0 || channel % 25 === 20)
+            throw new RangeError(`Frequency (${value}) is not a 25 kHz or 8.33 kHz channel.`);
+        return new Frequency(channel);
+    }
+
+    /**
+     * Parse a channel, or return `undefined` if it is not valid.
+     *
+     * @param value Channel name, in MHz.
+     * @see {@link parse}
+     */
+    public static tryParse(value: string | number): Frequency | undefined {
+        try {
+            return Frequency.parse(value);
+        }
+        catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * The channel name, in MHz.
+     */
+    public get mhz(): number {
+        return this.channel / 1000;
+    }
+
+    /**
+     * Channel spacing.
+     */
+    public get spacing(): Frequency.Spacing {
+        return this.channel % 25 === 0 ? Frequency.Spacing.KHZ_25 : Frequency.Spacing.KHZ_8_33;
+    }
+
+    /**
+     * The frequency to which a radio is tuned for this channel, in MHz.
+     */
+    public get carrier(): number {
+        const block = this.channel - this.channel % 25;
+        return (block + (this.channel % 25 === 0 ? 0 : (this.channel % 25 / 5 - 1) * 25 / 3)) / 1000;
+    }
+
+    /**
+     * Whether this is the same channel as another.
+     *
+     * @param other The other channel.
+     */
+    public equals(other: Frequency): boolean {
+        return this.channel === other.channel;
+    }
+
+    /**
+     * Whether this channel is tuned to the same frequency as another, such as `118.000` and `118.005`.
+     *
+     * @param other The other channel.
+     */
+    public overlaps(other: Frequency): boolean {
+        return Math.abs(this.carrier - other.carrier) < 1e-6;
+    }
+
+    /**
+     * Get the channel name, in MHz with three decimals.
+     */
+    public toString(): string {
+        return this.mhz.toFixed(3);
+    }
+}
+
+export namespace Frequency {
+    /**
+     * Channel spacing, in kHz.
+     */
+    export const enum Spacing {
+        KHZ_25 = 25,
+        KHZ_8_33 = 8.33,
+    }
+}
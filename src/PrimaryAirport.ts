@@ -51,6 +51,13 @@ export class PrimaryAirport {
         return this.#airlines;
     }
 
+    /**
+     * The entry points for arrivals at this airport.
+     */
+    public get entryPoints(): ReadonlySet<EntryPoint> {
+        return this.#entryPoints;
+    }
+
     /**
      * Add a runway to this airport.
      *
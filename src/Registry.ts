@@ -1,4 +1,6 @@
+import {Beacon} from "./navigation/Beacon.js";
 import {NamedFix} from "./navigation/NamedFix.js";
+import {SidFix} from "./navigation/SidFix.js";
 import {Runway} from "./Runway.js";
 import {SecondaryAirport} from "./SecondaryAirport.js";
 
@@ -7,11 +9,16 @@ import {SecondaryAirport} from "./SecondaryAirport.js";
  *
  * The following fixes are automatically registered by an {@link Airspace}:
  *  - `@center` — {@link Airspace#center}
+ *
+ * Names of fixes are checked against {@link Registry.NamingPolicy naming policies}. Enforced policies reject fixes when
+ * they are registered; other policies are reported by {@link checkNames}. By default, {@link Registry.DEFAULT_POLICIES}
+ * are reported but not enforced.
  */
 export class Registry {
     protected readonly fixes = new Map<string, NamedFix>();
     protected readonly airports = new Map<string, SecondaryAirport>();
     protected readonly runways = new Map<string, Runway>();
+    readonly #policies = new Map<Registry.NamingPolicy, boolean>(Registry.DEFAULT_POLICIES.map(p => [p, false]));
 
     /** @internal */
     protected constructor() {}
@@ -21,9 +28,15 @@ export class Registry {
      *
      * @param fix The fix to store.
      * @throws {@link CollisionError} If the fix is already registered in the registry.
+     * @throws {@link NamingError} If the name of the fix violates an enforced naming policy.
      */
     public addFix(...fix: NamedFix[]) {
         for (const b of fix) {
+            for (const [policy, enforced] of this.#policies) {
+                const violation = enforced ? policy.check(b) : undefined;
+                if (violation !== undefined)
+                    throw new Registry.NamingError(b, policy, violation);
+            }
             const existing = this.fixes.get(b.name);
             if (existing !== undefined) {
                 if ((existing.latitude !== b.latitude || existing.longitude !== b.longitude))
@@ -46,6 +59,57 @@ export class Registry {
         return this.fixes.get(name) ?? (() => {throw new Registry.NotRegisteredError(NamedFix, name);})();
     }
 
+    /**
+     * Get all named fixes stored in the registry.
+     */
+    public getFixes(): NamedFix[] {
+        return Array.from(this.fixes.values());
+    }
+
+    /**
+     * Add a naming policy, or change whether an existing policy is enforced.
+     *
+     * @param policy The policy.
+     * @param [enforce=false] Whether to reject fixes that violate the policy when they are registered. If `false`,
+     *     violations are only reported by {@link checkNames}.
+     * @throws {@link NamingError} If the policy is enforced and an already registered fix violates it.
+     */
+    public addNamingPolicy(policy: Registry.NamingPolicy, enforce: boolean = false) {
+        if (enforce)
+            for (const fix of this.fixes.values()) {
+                const violation = policy.check(fix);
+                if (violation !== undefined)
+                    throw new Registry.NamingError(fix, policy, violation);
+            }
+        this.#policies.set(policy, enforce);
+        return this;
+    }
+
+    /**
+     * Remove a naming policy.
+     *
+     * @param policy The policy to remove.
+     */
+    public removeNamingPolicy(policy: Registry.NamingPolicy) {
+        this.#policies.delete(policy);
+        return this;
+    }
+
+    /**
+     * Check the names of all registered fixes against the naming policies that are not enforced.
+     *
+     * @returns The violations found, in the order the fixes were added.
+     */
+    public checkNames(): Registry.NamingViolation[] {
+        return Array.from(this.fixes.values()).flatMap(fix =>
+            Array.from(this.#policies)
+                .filter(([, enforced]) => !enforced)
+                .flatMap(([policy]) => {
+                    const violation = policy.check(fix);
+                    return violation === undefined ? [] : [new Registry.NamingViolation(fix, policy, violation)];
+                }));
+    }
+
     /**
      * Store a secondary airport in the registry.
      *
@@ -58,8 +122,8 @@ export class Registry {
                 throw new Registry.CollisionError(SecondaryAirport, a.code);
             this.airports.set(a.code, a);
             try {
-                this.addRunway(...a.runways)
-                    .addFix(...a.sids);
+                this.addFix(...a.sids)
+                    .addRunway(...a.runways);
             }
             catch (e) {}
         }
@@ -76,6 +140,13 @@ export class Registry {
         return this.airports.get(code) ?? (() => {throw new Registry.NotRegisteredError(SecondaryAirport, code);})();
     }
 
+    /**
+     * Get all secondary airports stored in the registry, in the order they were added.
+     */
+    public getSecondaryAirports(): SecondaryAirport[] {
+        return Array.from(this.airports.values());
+    }
+
     /**
      * Store a runway in the registry.
      *
@@ -86,10 +157,18 @@ export class Registry {
         for (const r of runway) {
             if (this.runways.has(r.id))
                 throw new Registry.CollisionError(Runway, r.id);
+            this.runways.set(r.id, r);
         }
         return this;
     }
 
+    /**
+     * Get all runways stored in the registry, in the order they were added.
+     */
+    public getRunways(): Runway[] {
+        return Array.from(this.runways.values());
+    }
+
     /**
      * Retrieve a runway from the registry.
      *
@@ -111,6 +190,132 @@ export namespace Registry {
         }
     }
 
+    /**
+     * A rule for the names of registered fixes.
+     */
+    export interface NamingPolicy {
+        /**
+         * Short identifier of the policy, e.g. `uppercase`.
+         */
+        readonly name: string;
+
+        /**
+         * Check a fix against this policy.
+         *
+         * @param fix The fix to check.
+         * @returns Description of the violation, or `undefined` if the fix complies with this policy.
+         */
+        check(fix: NamedFix): string | undefined;
+    }
+
+    export namespace NamingPolicy {
+        const internal = (fix: NamedFix) => Registry.RESERVED_NAMES.has(fix.name);
+
+        /**
+         * Names starting with `@` are reserved for fixes registered internally, such as `@center`.
+         */
+        export const RESERVED: NamingPolicy = {
+            name: "reserved",
+            check: fix => fix.name.startsWith("@") && !internal(fix)
+                ? "names starting with @ are reserved for internal use"
+                : undefined,
+        };
+
+        /**
+         * Names must not contain lowercase letters.
+         */
+        export const UPPERCASE: NamingPolicy = {
+            name: "uppercase",
+            check: fix => !internal(fix) && fix.name !== fix.name.toUpperCase() ? "name must be uppercase" : undefined,
+        };
+
+        /**
+         * Names must be at most five characters long.
+         */
+        export const MAX_LENGTH: NamingPolicy = {
+            name: "max-length",
+            check: fix => !internal(fix) && fix.name.length > 5 ? "name must be at most 5 characters long" : undefined,
+        };
+
+        /**
+         * Names must be ICAO identifiers: five-letter waypoints, or two- or three-letter navaids for
+         * {@link Beacon beacons}.
+         */
+        export const ICAO: NamingPolicy = {
+            name: "icao",
+            check: fix => {
+                if (internal(fix) || /^[A-Z]{5}$/.test(fix.name))
+                    return undefined;
+                if (fix instanceof Beacon)
+                    return /^[A-Z]{2,3}$/.test(fix.name)
+                        ? undefined
+                        : "name must be a 5-letter waypoint or a 2- or 3-letter navaid identifier";
+                return "name must be a 5-letter waypoint identifier";
+            },
+        };
+
+        /**
+         * {@link SidFix SID fixes} must have a pronunciation that is not blank.
+         */
+        export const SID_PRONUNCIATION: NamingPolicy = {
+            name: "sid-pronunciation",
+            check: fix => fix instanceof SidFix && !(fix instanceof Beacon) && !fix.pronunciation?.trim()
+                ? "SID fix must have a pronunciation"
+                : undefined,
+        };
+
+        /**
+         * {@link Beacon Beacons} must have a pronunciation that is not blank.
+         */
+        export const BEACON_PRONUNCIATION: NamingPolicy = {
+            name: "beacon-pronunciation",
+            check: fix => fix instanceof Beacon && fix.pronunciation.trim() === ""
+                ? "beacon pronunciation must not be blank"
+                : undefined,
+        };
+    }
+
+    /**
+     * Names registered internally, which are exempt from the {@link NamingPolicy.RESERVED} policy.
+     */
+    export const RESERVED_NAMES: ReadonlySet<string> = new Set(["@center"]);
+
+    /**
+     * Naming policies reported by default.
+     */
+    export const DEFAULT_POLICIES: ReadonlyArray<NamingPolicy> = [
+        NamingPolicy.RESERVED,
+        NamingPolicy.UPPERCASE,
+        NamingPolicy.MAX_LENGTH,
+        NamingPolicy.SID_PRONUNCIATION,
+        NamingPolicy.BEACON_PRONUNCIATION,
+    ];
+
+    /**
+     * A registered fix that violates a naming policy.
+     */
+    export class NamingViolation {
+        /**
+         * @param fix The fix.
+         * @param policy The violated policy.
+         * @param message Description of the violation.
+         */
+        public constructor(
+            public readonly fix: NamedFix,
+            public readonly policy: NamingPolicy,
+            public readonly message: string,
+        ) {}
+    }
+
+    /**
+     * Thrown to indicate that the name of a fix violates an enforced naming policy.
+     */
+    export class NamingError extends Error {
+        public constructor(public readonly fix: NamedFix, public readonly policy: NamingPolicy, message: string) {
+            super(`Fix ${fix.name} violates naming policy ${policy.name}: ${message}.`);
+        }
+    }
+
     /**
      * Thrown to indicate that a requested key is already registered in the registry.
      */
@@ -142,7 +142,7 @@ export class Runway {
         this.towerPronunciation = options.towerPronunciation;
         this.oppositeDisplaced = options.opposite?.displaced ?? 0;
         this.oppositeGlideslope = options.opposite?.glideslope ?? 3;
-        this.oppositeLocalizer = options.opposite?.localizer ?? options.bearing;
+        this.oppositeLocalizer = options.opposite?.localizer ?? (options.bearing + 180) % 360;
         this.oppositeLocalizerFix = options.opposite?.localizerFix;
     }
 
@@ -168,9 +168,9 @@ export class Runway {
         const number = Number(this.name.match(/\d+/)?.[0]!);
         const letter = (this.name.match(/[LRC]$/)?.[0] ?? "") as "L" | "R" | "C" | "";
         const oppositeLetter = letter === "" ? "" : letter === "L" ? "R" : letter === "R" ? "L" : "C";
-        const name: `${number}${"L" | "R" | "C" | ""}` = `${(number + 18) % 360}${oppositeLetter}`;
+        const name = `${String((number + 17) % 36 + 1).padStart(2, "0")}${oppositeLetter}` as `${number}${"L" | "R" | "C" | ""}`;
         const bearing = (this.bearing + 180) % 360;
-        const position = this.position.destination(bearing, this.length);
+        const position = this.position.destination(this.bearing, this.length * Fix.FT / Fix.NMI);
         return new Runway({
             id,
             name,
@@ -193,11 +193,20 @@ export class Runway {
         });
     }
 
+    /**
+     * Get the runway number for a magnetic bearing, e.g. 27 for 268°. North is 36, not 0.
+     *
+     * @param bearing The magnetic bearing of the runway, in degrees.
+     */
+    public static designator(bearing: number): number {
+        return (Math.round(bearing / 10) % 36 + 36) % 36 || 36;
+    }
+
     /**
      * Get the position of the runway threshold.
      */
     public thr(): Fix {
-        return this.position.destination(this.reverse().bearing, this.displaced);
+        return this.position.destination(this.bearing, this.displaced * Fix.FT / Fix.NMI);
     }
 }
 
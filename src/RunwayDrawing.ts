@@ -0,0 +1,167 @@
+import {Fix} from "./navigation/Fix.js";
+import {Runway} from "./Runway.js";
+import {Polyline} from "./shapes/Polyline.js";
+
+/**
+ * Generates the polylines commonly drawn for a runway on the radar screen: the outline of the runway, dashed extended
+ * centrelines with a tick mark each nautical mile, and localiser feathers. The polylines can be added to the airspace
+ * with {@link Airspace#draw}.
+ *
+ * Extended centrelines, ticks and feathers are drawn on the approach side of both runway ends. Distances along the
+ * extended centreline are measured from the (displaced) threshold.
+ */
+export class RunwayDrawing {
+    readonly #options: Required<RunwayDrawing.Options>;
+
+    /**
+     * @param runway The runway. Both ends of the runway are drawn.
+     * @param [options] Drawing options.
+     */
+    public constructor(public readonly runway: Runway, options: RunwayDrawing.Options = {}) {
+        const centerline = options.centerline ?? 10;
+        this.#options = {
+            width: 150,
+            centerline,
+            dash: 0.5,
+            tick: 0.25,
+            featherAngle: 2.5,
+            featherLength: centerline,
+            color: Polyline.Color.RUNWAY,
+            ...options,
+        };
+    }
+
+    /**
+     * Both ends of the runway.
+     */
+    public get ends(): [Runway, Runway] {
+        return [this.runway, this.runway.reverse()];
+    }
+
+    /**
+     * Get the outline of the runway: a closed rectangle of the configured width.
+     */
+    public outline(): Polyline {
+        const [start, end] = this.ends;
+        const halfWidth = this.#options.width / 2 * Fix.FT / Fix.NMI;
+        const bearing = start.bearing;
+        return new Polyline([
+            start.position.destination(bearing - 90, halfWidth),
+            end.position.destination(bearing - 90, halfWidth),
+            end.position.destination(bearing + 90, halfWidth),
+            start.position.destination(bearing + 90, halfWidth),
+            start.position.destination(bearing - 90, halfWidth),
+        ], this.#options.color);
+    }
+
+    /**
+     * Get the dashes of the extended centrelines, from each runway end out to the configured distance from the
+     * threshold. Dashes and gaps have the same length.
+     */
+    public centerlines(): Polyline[] {
+        return this.ends.flatMap(end => {
+            const outbound = (end.bearing + 180) % 360;
+            const threshold = end.thr();
+            // the threshold is displaced along the runway, so the runway end is on the approach side of it
+            const start = threshold.distance(end.position);
+            const dashes: Polyline[] = [];
+            for (let from = start; from < this.#options.centerline; from += 2 * this.#options.dash) {
+                const to = Math.min(from + this.#options.dash, this.#options.centerline);
+                dashes.push(new Polyline([
+                    threshold.destination(outbound, from),
+                    threshold.destination(outbound, to),
+                ], this.#options.color));
+            }
+            return dashes;
+        });
+    }
+
+    /**
+     * Get the tick marks across the extended centrelines, one each nautical mile from the threshold.
+     */
+    public ticks(): Polyline[] {
+        const halfLength = this.#options.tick / 2;
+        return this.ends.flatMap(end => {
+            const outbound = (end.bearing + 180) % 360;
+            const threshold = end.thr();
+            return Array.from({length: Math.floor(this.#options.centerline)}, (_, i) => {
+                const point = threshold.destination(outbound, i + 1);
+                return new Polyline([
+                    point.destination(outbound - 90, halfLength),
+                    point.destination(outbound + 90, halfLength),
+                ], this.#options.color);
+            });
+        });
+    }
+
+    /**
+     * Get the localiser feathers: for each runway end, two lines from the threshold either side of the localiser
+     * course.
+     */
+    public feathers(): Polyline[] {
+        return this.ends.map(end => {
+            const outbound = (end.localizer + 180) % 360;
+            const threshold = end.thr();
+            return new Polyline([
+                threshold.destination(outbound - this.#options.featherAngle, this.#options.featherLength),
+                threshold,
+                threshold.destination(outbound + this.#options.featherAngle, this.#options.featherLength),
+            ], this.#options.color);
+        });
+    }
+
+    /**
+     * Get all polylines: the outline, extended centrelines, tick marks and localiser feathers.
+     */
+    public polylines(): Polyline[] {
+        return [this.outline(), ...this.centerlines(), ...this.ticks(), ...this.feathers()];
+    }
+}
+
+export namespace RunwayDrawing {
+    /**
+     * Options for drawing a runway.
+     */
+    export interface Options {
+        /**
+         * Width of the runway, in feet.
+         * @default 150
+         */
+        width?: number;
+
+        /**
+         * Length of the extended centrelines from the threshold, in nautical miles.
+         * @default 10
+         */
+        centerline?: number;
+
+        /**
+         * Length of the dashes of the extended centrelines, and of the gaps between them, in nautical miles.
+         * @default 0.5
+         */
+        dash?: number;
+
+        /**
+         * Length of the tick marks across the extended centrelines, in nautical miles.
+         * @default 0.25
+         */
+        tick?: number;
+
+        /**
+         * Angle, in degrees, between each line of a localiser feather and the localiser course.
+         * @default 2.5
+         */
+        featherAngle?: number;
+
+        /**
+         * Length of the localiser feathers, in nautical miles. Defaults to {@link centerline}.
+         */
+        featherLength?: number;
+
+        /**
+         * The colour of the polylines.
+         * @default {@link Polyline.Color.RUNWAY}
+         */
+        color?: Polyline.Color | Polyline.RGB;
+    }
+}
@@ -1,9 +1,15 @@
+import {AirspaceDeserializer} from "../format/AirspaceDeserializer.js";
+import {AirspaceSerializer} from "../format/AirspaceSerializer.js";
+import {Diagnostic} from "../format/Diagnostic.js";
+import {IniDocument} from "../format/IniDocument.js";
 import {FrequencyHandoff} from "../FrequencyHandoff.js";
 import {Beacon} from "../navigation/Beacon.js";
 import {Fix} from "../navigation/Fix.js";
+import {MagneticModel} from "../navigation/MagneticModel.js";
 import {Arrival} from "../navigation/Arrival.js";
 import {Departure} from "../navigation/Departure.js";
 import {NamedFix} from "../navigation/NamedFix.js";
+import {Ini} from "../parseIni.js";
 import {PrimaryAirport} from "../PrimaryAirport.js";
 import {Registry} from "../Registry.js";
 import {RunwayConfiguration} from "../RunwayConfiguration.js";
@@ -12,6 +18,8 @@ import {Area} from "../shapes/Area.js";
 import {CircleArea} from "../shapes/CircleArea.js";
 import {Radius} from "../shapes/Radius.js";
 import {Shape} from "../shapes/Shape.js";
+import {AirspaceValidator} from "../validation/AirspaceValidator.js";
+import {Finding} from "../validation/Finding.js";
 import {WakeCategory} from "../WakeCategory.js";
 import {WakeSeparation} from "../WakeSeparation.js";
 import {AirspaceOptions} from "./AirspaceOptions.js";
@@ -129,7 +137,9 @@ export class Airspace extends Registry implements AirspaceOptions {
         this.callsignLettersFrequency = callsignLettersFrequency;
         this.metric = metric;
         this.altimeterInHg = altimeterInHg;
-        this.magneticVariance = magneticVariance;
+        this.magneticVariance = magneticVariance === "auto"
+            ? Math.round(MagneticModel.WMM2025.declination(center) * 10) / 10
+            : magneticVariance;
         this.zoom = zoom;
         this.wakeSeparation = wakeSeparation;
 
@@ -137,6 +147,35 @@ export class Airspace extends Registry implements AirspaceOptions {
             .addFix(NamedFix.fromFix(this.center, "@center"));
     }
 
+    /**
+     * Read an airspace from an INI file structure.
+     *
+     * @param ini The INI file structure, as returned by {@link parseIni}, or an INI document.
+     * @param [deserializer] The deserialiser to use. Warnings, which do not prevent reading the airspace, are in its
+     *     {@link AirspaceDeserializer#diagnostics diagnostics} afterwards.
+     * @throws {@link AirspaceDeserializer.FormatError} If any errors are found while reading the airspace.
+     * @see {@link AirspaceDeserializer}
+     */
+    public static fromIni(ini: Ini | IniDocument, deserializer: AirspaceDeserializer = new AirspaceDeserializer()): Airspace {
+        const airspace = deserializer.deserialize(ini);
+        if (deserializer.diagnostics.some(d => d.severity === Diagnostic.Severity.ERROR))
+            throw new AirspaceDeserializer.FormatError(deserializer.diagnostics);
+        return airspace;
+    }
+
+    /**
+     * Read an airspace from the text of an Endless ATC custom airspace file.
+     *
+     * @param text The text of the airspace file.
+     * @param [deserializer] The deserialiser to use. Warnings, which do not prevent reading the airspace, are in its
+     *     {@link AirspaceDeserializer#diagnostics diagnostics} afterwards.
+     * @throws {@link AirspaceDeserializer.FormatError} If any errors are found while reading the airspace.
+     * @see {@link AirspaceDeserializer}
+     */
+    public static parse(text: string, deserializer?: AirspaceDeserializer): Airspace {
+        return Airspace.fromIni(IniDocument.parse(text), deserializer);
+    }
+
     public get beacons(): ReadonlyArray<Beacon> {
         return this.#beacons;
     }
@@ -165,13 +204,20 @@ export class Airspace extends Registry implements AirspaceOptions {
             throw new Error("Primary airport is already set");
         this.#primaryAirport = primaryAirport;
         try {
-            this.addRunway(...primaryAirport.runways)
-                .addFix(...primaryAirport.sids);
+            this.addFix(...primaryAirport.sids)
+                .addRunway(...primaryAirport.runways);
         }
         catch (e) {}
         return this;
     }
 
+    /**
+     * Whether the primary airport for this airspace is set.
+     */
+    public hasPrimaryAirport(): boolean {
+        return this.#primaryAirport !== null;
+    }
+
     /**
      * Get the primary airport for this airspace.
      *
@@ -195,7 +241,7 @@ export class Airspace extends Registry implements AirspaceOptions {
      *
      * @param area The area to add.
      */
-    public addArea(area: Area): this {
+    public addArea(area: Area | CircleArea): this {
         this.areas.push(area);
         return this;
     }
@@ -237,4 +283,44 @@ export class Airspace extends Registry implements AirspaceOptions {
         this.shapes.push(shape);
         return this;
     }
+
+    /**
+     * Convert a true bearing to a magnetic bearing using the {@link magneticVariance} of this airspace.
+     *
+     * @param bearing The true bearing, in degrees.
+     * @returns The magnetic bearing, in degrees in the range [0, 360).
+     */
+    public toMagnetic(bearing: number): number {
+        return ((bearing - this.magneticVariance) % 360 + 360) % 360;
+    }
+
+    /**
+     * Convert a magnetic bearing to a true bearing using the {@link magneticVariance} of this airspace.
+     *
+     * @param bearing The magnetic bearing, in degrees.
+     * @returns The true bearing, in degrees in the range [0, 360).
+     */
+    public toTrue(bearing: number): number {
+        return ((bearing + this.magneticVariance) % 360 + 360) % 360;
+    }
+
+    /**
+     * Check this airspace for problems that would make it behave unexpectedly in the game.
+     *
+     * @param [options] Validation options.
+     * @returns The problems found.
+     * @see {@link AirspaceValidator}
+     */
+    public validate(options?: AirspaceValidator.Options): Finding[] {
+        return new AirspaceValidator(options).validate(this);
+    }
+
+    /**
+     * Get the Endless ATC custom airspace file for this airspace.
+     *
+     * @see {@link AirspaceSerializer}
+     */
+    public override toString(): string {
+        return new AirspaceSerializer().stringify(this);
+    }
 }
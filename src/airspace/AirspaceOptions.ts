@@ -115,9 +115,10 @@ export interface AirspaceOptions {
     altimeterInHg: boolean;
 
     /**
-     * Airspace magnetic variance in degrees (positive is east).
+     * Airspace magnetic variance in degrees (positive is east). If `"auto"`, the variance is computed at
+     * {@link center} for the current date using the World Magnetic Model, rounded to 0.1 degrees.
      */
-    magneticVariance: number;
+    magneticVariance: number | "auto";
 
     /**
      * Default zoom level (higher is more zoomed in).
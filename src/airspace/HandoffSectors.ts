@@ -0,0 +1,154 @@
+import {FrequencyHandoff} from "../FrequencyHandoff.js";
+import {Departure} from "../navigation/Departure.js";
+import {Fix} from "../navigation/Fix.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {Radius} from "../shapes/Radius.js";
+import {Airspace} from "./Airspace.js";
+
+/**
+ * The sectors around the {@link Airspace#center} in which departures are handed off to each of the
+ * {@link Airspace#departureFrequencies}.
+ *
+ * A departure is handed off to the frequency whose bearing is closest to the bearing from the centre to the last fix
+ * of the departure, so each sector extends halfway to the bearings of the neighbouring frequencies. A frequency with
+ * the same bearing as an earlier frequency is never used, and has no sector.
+ */
+export class HandoffSectors {
+    /**
+     * The sectors, clockwise from north.
+     */
+    public readonly sectors: HandoffSectors.Sector[];
+
+    /**
+     * @param airspace The airspace.
+     */
+    public constructor(public readonly airspace: Airspace) {
+        const handoffs = airspace.departureFrequencies
+            .filter((h, i, all) => all.findIndex(o => HandoffSectors.normalise(o.bearing) === HandoffSectors.normalise(h.bearing)) === i)
+            .sort((a, b) => HandoffSectors.normalise(a.bearing) - HandoffSectors.normalise(b.bearing));
+        this.sectors = handoffs.map((handoff, i) => {
+            if (handoffs.length === 1)
+                return new HandoffSectors.Sector(handoff, HandoffSectors.normalise(handoff.bearing + 180), 360);
+            const previous = handoffs[(i + handoffs.length - 1) % handoffs.length]!;
+            const next = handoffs[(i + 1) % handoffs.length]!;
+            const before = HandoffSectors.normalise(handoff.bearing - previous.bearing) / 2;
+            const after = HandoffSectors.normalise(next.bearing - handoff.bearing) / 2;
+            return new HandoffSectors.Sector(handoff, HandoffSectors.normalise(handoff.bearing - before), before + after);
+        });
+    }
+
+    /**
+     * Get the sector in which a fix lies.
+     *
+     * @param fix The fix.
+     * @returns The sector, or `undefined` if the airspace has no departure frequencies.
+     */
+    public sector(fix: Fix): HandoffSectors.Sector | undefined {
+        const bearing = this.airspace.center.initialBearing(fix);
+        return this.sectors.find(s => s.contains(bearing));
+    }
+
+    /**
+     * Get the sector in which each departure is handed off, from the last fix of its route.
+     *
+     * @returns For each departure of the airspace, its sector, or `undefined` if the departure has no fixes or the
+     *     airspace has no departure frequencies.
+     */
+    public departures(): HandoffSectors.Assignment[] {
+        return this.airspace.departures.map(departure => {
+            const last = departure.route[departure.route.length - 1];
+            return {departure, sector: last === undefined ? undefined : this.sector(last)};
+        });
+    }
+
+    /**
+     * Get the sectors in which no departure is handed off.
+     */
+    public unused(): HandoffSectors.Sector[] {
+        const used = new Set(this.departures().map(a => a.sector));
+        return this.sectors.filter(s => !used.has(s));
+    }
+
+    /**
+     * Get the sectors as wedges from the centre of the airspace.
+     *
+     * @param [radius] Radius of the wedges, in nautical miles. Defaults to the distance from the centre to the
+     *     farthest point of the {@link Airspace#boundary}.
+     * @param [color=Polyline.Color.AIRSPACE] The colour of the polylines.
+     * @param [step=5] Maximum angle, in degrees, between consecutive vertices of the arcs.
+     */
+    public polylines(radius: number = this.radius(), color: Polyline.Color | Polyline.RGB = Polyline.Color.AIRSPACE, step: number = 5): Polyline[] {
+        const center = this.airspace.center;
+        return this.sectors.map(sector => {
+            const segments = Math.max(1, Math.ceil(sector.width / step));
+            const arc = Array.from({length: segments + 1},
+                (_, i) => center.destination(sector.start + sector.width * i / segments, radius));
+            return new Polyline(sector.width === 360 ? arc : [center, ...arc, center], color);
+        });
+    }
+
+    private radius(): number {
+        const boundary = this.airspace.boundary;
+        if (boundary instanceof Radius)
+            return boundary.radius;
+        return Math.max(...boundary.vertices.map(v => this.airspace.center.distance(v)));
+    }
+
+    /**
+     * Normalise a bearing to the range [0, 360).
+     *
+     * @param bearing The bearing, in degrees.
+     */
+    private static normalise(bearing: number): number {
+        return (bearing % 360 + 360) % 360;
+    }
+}
+
+export namespace HandoffSectors {
+    /**
+     * The range of bearings from the centre of the airspace in which departures are handed off to a frequency.
+     */
+    export class Sector {
+        /**
+         * @param handoff The frequency to which departures in this sector are handed off.
+         * @param start Bearing from the centre at which the sector starts, in degrees from true north.
+         * @param width Angle, in degrees, that the sector spans clockwise from {@link start}.
+         */
+        public constructor(
+            public readonly handoff: FrequencyHandoff,
+            public readonly start: number,
+            public readonly width: number,
+        ) {}
+
+        /**
+         * Bearing from the centre at which the sector ends, in degrees from true north.
+         */
+        public get end(): number {
+            return (this.start + this.width) % 360;
+        }
+
+        /**
+         * Whether a bearing from the centre is in this sector.
+         *
+         * @param bearing The bearing, in degrees from true north.
+         */
+        public contains(bearing: number): boolean {
+            return this.width >= 360 || ((bearing - this.start) % 360 + 360) % 360 < this.width;
+        }
+    }
+
+    /**
+     * The sector in which a departure is handed off.
+     */
+    export interface Assignment {
+        /**
+         * The departure.
+         */
+        departure: Departure;
+
+        /**
+         * The sector in which the last fix of the departure lies.
+         */
+        sector: Sector | undefined;
+    }
+}
@@ -1,3 +1,4 @@
 export {Airspace} from "./Airspace.js";
 export {AirspaceOptions} from "./AirspaceOptions.js";
+export {HandoffSectors} from "./HandoffSectors.js";
 export {SpeedRestriction} from "./SpeedRestriction.js";
@@ -0,0 +1,794 @@
+import {Airline} from "../Airline.js";
+import {Airspace} from "../airspace/Airspace.js";
+import {AirspaceOptions} from "../airspace/AirspaceOptions.js";
+import {SpeedRestriction} from "../airspace/SpeedRestriction.js";
+import {EntryPoint} from "../EntryPoint.js";
+import {FrequencyHandoff} from "../FrequencyHandoff.js";
+import {ApproachFix} from "../navigation/ApproachFix.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {Beacon} from "../navigation/Beacon.js";
+import {CardinalDirection} from "../navigation/CardinalDirection.js";
+import {Departure} from "../navigation/Departure.js";
+import {Fix} from "../navigation/Fix.js";
+import {NamedFix} from "../navigation/NamedFix.js";
+import {SidFix} from "../navigation/SidFix.js";
+import {Ini, IniBaseValue} from "../parseIni.js";
+import {PrimaryAirport} from "../PrimaryAirport.js";
+import {Registry} from "../Registry.js";
+import {Runway} from "../Runway.js";
+import {RunwayConfiguration} from "../RunwayConfiguration.js";
+import {SecondaryAirport} from "../SecondaryAirport.js";
+import {Area} from "../shapes/Area.js";
+import {CircleArea} from "../shapes/CircleArea.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {Radius} from "../shapes/Radius.js";
+import {WakeSeparation} from "../WakeSeparation.js";
+import {AirspaceSerializer} from "./AirspaceSerializer.js";
+import {Diagnostic} from "./Diagnostic.js";
+import {IniDocument} from "./IniDocument.js";
+
+/**
+ * Thrown by {@link Section} to abort reading the current key or line. The problem has already been reported.
+ */
+class Skip extends Error {}
+
+/**
+ * Reads keys from a section and reports problems with them.
+ */
+class Section {
+    readonly #used = new Set<string>();
+    #current: [key: string, line: number] | null = null;
+
+    /**
+     * @param name The name of the section.
+     * @param entries The keys and values of the section.
+     * @param diagnostics Where to report problems.
+     * @param [document] The document from which the section was read, used to locate problems.
+     */
+    public constructor(
+        public readonly name: string,
+        private readonly entries: Record<string, IniBaseValue | IniBaseValue[]>,
+        private readonly diagnostics: Diagnostic[],
+        private readonly document?: IniDocument,
+    ) {}
+
+    private locate(key?: string, field?: number): IniDocument.Position | undefined {
+        if (this.document === undefined)
+            return undefined;
+        const sections = this.document.sections.filter(s => s.name === this.name);
+        if (key === undefined)
+            return sections[0] && this.document.locate(sections[0]);
+        const entry = sections.flatMap(s => s.entries).findLast(e => e.key === key);
+        if (entry === undefined)
+            return sections[0] && this.document.locate(sections[0]);
+        const line = this.#current !== null && this.#current[0] === key && entry.multiline ? this.#current[1] : undefined;
+        return this.document.locate(entry, line, field);
+    }
+
+    /**
+     * Report a problem in this section.
+     *
+     * @param key The key at which the problem was found, if any.
+     * @param message Description of the problem.
+     * @param [field] The index of the comma-separated field at which the problem was found. If the key is being read
+     *     line by line with {@link each}, this refers to the current line.
+     * @param [severity=Diagnostic.Severity.ERROR] How severe the problem is.
+     * @returns An error that can be thrown to skip reading the rest of the key or line.
+     */
+    public report(key: string | undefined, message: string, field?: number, severity: Diagnostic.Severity = Diagnostic.Severity.ERROR): Skip {
+        const position = this.locate(key, field);
+        this.diagnostics.push(new Diagnostic(severity, message, this.name, key, position?.line, position?.column));
+        return new Skip(message);
+    }
+
+    public has(key: string): boolean {
+        return this.entries[key] !== undefined;
+    }
+
+    private value(key: string, required: boolean): IniBaseValue | IniBaseValue[] | undefined {
+        this.#used.add(key);
+        const value = this.entries[key];
+        if (value === undefined && required)
+            throw this.report(key, "Missing required key.");
+        return value;
+    }
+
+    /**
+     * Read the comma-separated fields of a single-line value.
+     */
+    public fields(key: string, required: true): string[];
+    public fields(key: string, required?: boolean): string[] | undefined;
+    public fields(key: string, required = false): string[] | undefined {
+        const value = this.value(key, required);
+        if (value === undefined)
+            return undefined;
+        if (Array.isArray(value))
+            throw this.report(key, "Expected a single-line value.");
+        return AirspaceDeserializer.fields(String(value));
+    }
+
+    public string(key: string, required: true): string;
+    public string(key: string, required?: boolean): string | undefined;
+    public string(key: string, required = false): string | undefined {
+        return this.fields(key, required)?.join(", ");
+    }
+
+    public number(key: string, required: true): number;
+    public number(key: string, required?: boolean): number | undefined;
+    public number(key: string, required = false): number | undefined {
+        const fields = this.fields(key, required);
+        if (fields === undefined)
+            return undefined;
+        this.arity(key, fields, 1, 1, "a number");
+        return this.parseNumber(key, fields[0]!, 0);
+    }
+
+    public boolean(key: string, required = false): boolean | undefined {
+        const fields = this.fields(key, required);
+        if (fields === undefined)
+            return undefined;
+        this.arity(key, fields, 1, 1, "‘true’ or ‘false’");
+        return this.parseBoolean(key, fields[0]!, 0);
+    }
+
+    /**
+     * Read the lines of a multiline value. Each line is split into its comma-separated fields.
+     */
+    public lines(key: string, required = false): string[][] {
+        const value = this.value(key, required);
+        if (value === undefined)
+            return [];
+        return (Array.isArray(value) ? value : [value]).map(line => AirspaceDeserializer.fields(String(line)));
+    }
+
+    /**
+     * Check the number of fields in a value or line.
+     *
+     * @param key The key.
+     * @param fields The fields.
+     * @param min Minimum number of fields.
+     * @param max Maximum number of fields.
+     * @param expected Description of the expected fields.
+     */
+    public arity(key: string, fields: string[], min: number, max: number, expected: string) {
+        if (fields.length < min || fields.length > max)
+            throw this.report(key, `Expected ${expected}; got ${fields.length} field${fields.length === 1 ? "" : "s"}.`,
+                fields.length > max ? max : undefined);
+    }
+
+    public parseNumber(key: string, value: string | undefined, field?: number): number {
+        const number = Number(value);
+        if (value === undefined || value === "" || Number.isNaN(number))
+            throw this.report(key, `Expected a number, got ‘${value ?? ""}’.`, field);
+        return number;
+    }
+
+    public parseOptionalNumber(key: string, value: string | undefined, field?: number): number | undefined {
+        return value === undefined || value === "" ? undefined : this.parseNumber(key, value, field);
+    }
+
+    public parseBoolean(key: string, value: string, field?: number): boolean {
+        if (value === "true") return true;
+        if (value === "false") return false;
+        throw this.report(key, `Expected ‘true’ or ‘false’, got ‘${value}’.`, field);
+    }
+
+    /**
+     * Run a function for each line of a multiline value, skipping lines that could not be read.
+     */
+    public each<T>(key: string, fn: (fields: string[]) => T, required = false): T[] {
+        const results: T[] = [];
+        this.lines(key, required).forEach((fields, i) => {
+            this.#current = [key, i];
+            try {
+                results.push(fn(fields));
+            }
+            catch (e) {
+                if (!(e instanceof Skip)) throw e;
+            }
+            finally {
+                this.#current = null;
+            }
+        });
+        return results;
+    }
+
+    /**
+     * Run a function, skipping the rest of it if a problem is found.
+     */
+    public try<T>(fn: () => T): T | undefined {
+        try {
+            return fn();
+        }
+        catch (e) {
+            if (e instanceof Skip) return undefined;
+            throw e;
+        }
+    }
+
+    /**
+     * Report all keys in this section that have not been read.
+     */
+    public finish() {
+        for (const key of Object.keys(this.entries))
+            if (!this.#used.has(key))
+                this.report(key, "Unknown key.", undefined, Diagnostic.Severity.WARNING);
+    }
+}
+
+/**
+ * Reads an {@link Airspace} from the Endless ATC custom airspace format, as written by {@link AirspaceSerializer}.
+ *
+ * Fixes referenced by name are resolved through the {@link Registry} of the airspace. Reading continues after a
+ * problem is found: sections and lines that cannot be read are skipped, and all problems are collected in
+ * {@link diagnostics}. When reading text or an {@link IniDocument}, each diagnostic includes its line and column.
+ */
+export class AirspaceDeserializer {
+    /**
+     * Problems found while reading the last airspace.
+     */
+    public readonly diagnostics: Diagnostic[] = [];
+
+    /**
+     * Read an airspace from an INI file structure or document.
+     *
+     * @param source The INI file structure, as returned by {@link parseIni}, or an INI document.
+     * @throws {@link AirspaceDeserializer.FormatError} If the `[airspace]` section is missing or incomplete.
+     */
+    public deserialize(source: Ini | IniDocument): Airspace {
+        this.diagnostics.length = 0;
+        const document = source instanceof IniDocument ? source : undefined;
+        const ini = source instanceof IniDocument ? source.toIni() : source;
+        if (document !== undefined)
+            this.diagnostics.push(...document.diagnostics);
+
+        const sections = new Map<string, Section>();
+        for (const [name, value] of Object.entries(ini)) {
+            if (typeof value !== "object" || Array.isArray(value)) {
+                const entry = document?.sections[0]?.get(name);
+                const position = entry && document?.locate(entry);
+                this.diagnostics.push(new Diagnostic(Diagnostic.Severity.WARNING, "Key outside of a section.",
+                    undefined, name, position?.line, position?.column));
+                continue;
+            }
+            const section = new Section(name, value, this.diagnostics, document);
+            if (!/^(?:airspace|(?:airport|config|approach|departure|area|polyline)\d+)$/.test(name)) {
+                section.report(undefined, "Unknown section.", undefined, Diagnostic.Severity.WARNING);
+                continue;
+            }
+            sections.set(name, section);
+        }
+
+        const section = sections.get("airspace");
+        if (section === undefined) {
+            this.diagnostics.push(new Diagnostic(Diagnostic.Severity.ERROR, "Missing required section.", "airspace"));
+            throw new AirspaceDeserializer.FormatError(this.diagnostics);
+        }
+        const airspace = this.airspace(section);
+        section.finish();
+        if (airspace === null)
+            throw new AirspaceDeserializer.FormatError(this.diagnostics);
+
+        const ordered = (prefix: string) => Array.from(sections.values())
+            .filter(s => s.name.startsWith(prefix))
+            .sort((a, b) => Number(a.name.slice(prefix.length)) - Number(b.name.slice(prefix.length)));
+
+        for (const s of ordered("airport"))
+            this.read(s, () => {
+                if (s.name === "airport1")
+                    airspace.setPrimaryAirport(this.airport(s, airspace, PrimaryAirport));
+                else airspace.addSecondaryAirport(this.airport(s, airspace, SecondaryAirport));
+            });
+        for (const s of ordered("config"))
+            this.read(s, () => airspace.addConfig(this.runwayConfiguration(s, airspace)));
+        for (const s of ordered("approach"))
+            this.read(s, () => airspace.addArrival(this.arrival(s, airspace)));
+        for (const s of ordered("departure"))
+            this.read(s, () => airspace.addDeparture(this.departure(s, airspace)));
+        for (const s of ordered("area"))
+            this.read(s, () => airspace.addArea(this.area(s, airspace)));
+        for (const s of ordered("polyline"))
+            this.read(s, () => airspace.draw(this.polyline(s)));
+
+        return airspace;
+    }
+
+    /**
+     * Read an airspace from the text of an airspace file.
+     *
+     * @param text The text of the airspace file.
+     * @throws {@link AirspaceDeserializer.FormatError} If the `[airspace]` section is missing or incomplete.
+     */
+    public parse(text: string): Airspace {
+        return this.deserialize(IniDocument.parse(text));
+    }
+
+    /**
+     * Check an airspace file for problems without throwing.
+     *
+     * @param text The text of the airspace file.
+     * @returns All problems found in the file, in the order they were found.
+     */
+    public check(text: string): Diagnostic[] {
+        try {
+            this.parse(text);
+        }
+        catch (e) {
+            if (!(e instanceof AirspaceDeserializer.FormatError))
+                throw e;
+        }
+        return Array.from(this.diagnostics);
+    }
+
+    /**
+     * Read a section, reporting unknown keys only if the section could be read.
+     */
+    private read(section: Section, fn: () => void) {
+        if (section.try(() => (fn(), true)))
+            section.finish();
+    }
+
+    /**
+     * Split a line into its comma-separated fields.
+     *
+     * @internal
+     */
+    public static fields(line: string): string[] {
+        return line.split(",").map(f => f.trim());
+    }
+
+    /**
+     * Parse a coordinate in decimal degrees or DMS notation.
+     *
+     * @param section The section.
+     * @param key The key.
+     * @param fields The fields of the value or line.
+     * @param index The index of the latitude field. The longitude is in the next field.
+     */
+    private static coordinates(section: Section, key: string, fields: string[], index: number = 0): Fix {
+        const latitude = fields[index];
+        const longitude = fields[index + 1];
+        if (latitude === undefined || latitude === "" || longitude === undefined || longitude === "")
+            throw section.report(key, "Expected latitude and longitude.", index);
+        const decimal = /^[-+]?\d+(?:\.\d+)?$/;
+        if (decimal.test(latitude) && decimal.test(longitude))
+            return new Fix(Number(latitude), Number(longitude));
+        let field = index;
+        try {
+            const φ = Fix.parseDms(latitude);
+            ++field;
+            return new Fix(φ, Fix.parseDms(longitude));
+        }
+        catch (e) {
+            if (e instanceof SyntaxError || e instanceof RangeError)
+                throw section.report(key, e.message, field);
+            throw e;
+        }
+    }
+
+    /**
+     * Parse a fix given either by its coordinates or by the name of a registered fix. Fields that can be read as
+     * coordinates are, even if they start with a letter, such as `N51.27.00, W000.06.00`.
+     *
+     * @returns The fix and the number of fields it occupies.
+     */
+    private static fix(section: Section, key: string, fields: string[], registry: Registry): [Fix, number] {
+        const [first, second] = fields;
+        if (first !== undefined && /^[@A-Za-z]/.test(first)) {
+            if (second !== undefined) {
+                try {
+                    return [new Fix(Fix.parseDms(first), Fix.parseDms(second)), 2];
+                }
+                catch (e) {
+                    if (!(e instanceof SyntaxError || e instanceof RangeError))
+                        throw e;
+                }
+            }
+            try {
+                return [registry.getFix(first), 1];
+            }
+            catch (e) {
+                if (e instanceof Registry.NotRegisteredError)
+                    throw section.report(key, `Fix ${first} is not registered.`, 0);
+                throw e;
+            }
+        }
+        return [AirspaceDeserializer.coordinates(section, key, fields), 2];
+    }
+
+    private static route(section: Section, registry: Registry): (Fix | ApproachFix)[] {
+        return section.each("route", fields => {
+            const [fix, n] = AirspaceDeserializer.fix(section, "route", fields, registry);
+            section.arity("route", fields, n, n + 2, "a fix, optional altitude and optional speed");
+            const [altitude, speed] = fields.slice(n);
+            if (altitude === undefined && speed === undefined)
+                return fix;
+            return ApproachFix.from(fix,
+                section.parseOptionalNumber("route", altitude, n),
+                section.parseOptionalNumber("route", speed, n + 1));
+        }, true);
+    }
+
+    private static runway(section: Section, key: string, registry: Registry, id: string, field?: number): Runway {
+        try {
+            return registry.getRunway(id);
+        }
+        catch (e) {
+            if (!(e instanceof Registry.NotRegisteredError))
+                throw e;
+            if (id.endsWith("rev"))
+                return AirspaceDeserializer.runway(section, key, registry, id.slice(0, -3), field).reverse();
+            throw section.report(key, `Runway ${id} is not registered.`, field);
+        }
+    }
+
+    private beacon(section: Section, key: string, fields: string[]): Beacon {
+        section.arity(key, fields, 4, 6, "latitude, longitude, name, pronunciation, and optional holding pattern course and turn direction");
+        const [, , name, pronunciation, course, turn] = fields;
+        if (name === "")
+            throw section.report(key, "Missing beacon name.", 2);
+        if (turn !== undefined && turn !== "L" && turn !== "R")
+            throw section.report(key, `Expected turn direction ‘L’ or ‘R’, got ‘${turn}’.`, 5);
+        const position = AirspaceDeserializer.coordinates(section, key, fields);
+        const inboundCourse = section.parseOptionalNumber(key, course, 4);
+        return Beacon.fromFix(position, name!, pronunciation!, inboundCourse === undefined
+            ? undefined
+            : new Beacon.HoldingPattern(inboundCourse, turn === "L" ? Beacon.TurnDirection.LEFT : Beacon.TurnDirection.RIGHT));
+    }
+
+    private airspace(section: Section): Airspace | null {
+        const options: Partial<Record<keyof AirspaceOptions, unknown>> = {};
+        const set = <K extends keyof AirspaceOptions>(key: K, read: () => AirspaceOptions[K] | undefined) => {
+            const value = section.try(read);
+            if (value !== undefined)
+                options[key] = value;
+        };
+
+        set("center", () => {
+            const fields = section.fields("center", true);
+            section.arity("center", fields, 2, 2, "latitude and longitude");
+            return AirspaceDeserializer.coordinates(section, "center", fields);
+        });
+        set("boundary", () => {
+            if (section.has("boundary") && section.has("radius"))
+                throw section.report("radius", "Only one of ‘boundary’ and ‘radius’ may be specified.");
+            if (section.has("boundary"))
+                return new Polyline(section.each("boundary", fields => {
+                    section.arity("boundary", fields, 2, 2, "latitude and longitude");
+                    return AirspaceDeserializer.coordinates(section, "boundary", fields);
+                }));
+            const radius = section.number("radius");
+            return radius === undefined ? undefined : new Radius(radius);
+        });
+        set("beacons", () => section.each("beacons", fields => this.beacon(section, "beacons", fields)));
+        set("approachCallsign", () => section.string("approachCallsign"));
+        set("departureCallsign", () => section.string("departureCallsign"));
+        set("elevation", () => section.number("elevation", true));
+        set("floorAltitude", () => section.number("floorAltitude", true));
+        set("departureDiversionAltitude", () => section.number("departureDiversionAltitude", true));
+        set("transitionalAltitude", () => section.number("transitionalAltitude"));
+        set("descentAltitude", () => section.number("descentAltitude", true));
+        set("ceilingAltitude", () => section.number("ceilingAltitude"));
+        set("departureAltitude", () => section.number("departureAltitude"));
+        set("departureFrequencies", () => section.each("departureFrequencies", fields => {
+            section.arity("departureFrequencies", fields, 3, 4, "bearing, callsign, pronunciation and optional frequency");
+            const [bearing, callsign, pronunciation, frequency] = fields;
+            return new FrequencyHandoff(
+                section.parseNumber("departureFrequencies", bearing, 0),
+                callsign!,
+                pronunciation!,
+                section.parseOptionalNumber("departureFrequencies", frequency, 3),
+            );
+        }));
+        set("speedRestriction", () => {
+            const pair = (key: string): [number, number] | undefined => section.try(() => {
+                const fields = section.fields(key);
+                if (fields === undefined)
+                    return undefined;
+                section.arity(key, fields, 2, 2, "two values");
+                return fields.map((f, i) => section.parseNumber(key, f, i)) as [number, number];
+            });
+            const withinRadius = pair("speedWithinRadius");
+            const belowAltitude = pair("speedBelowAltitude");
+            const onLocaliser = pair("speedOnLocaliser");
+            return new SpeedRestriction(
+                withinRadius && new SpeedRestriction.WithinRadius(...withinRadius),
+                belowAltitude && new SpeedRestriction.BelowAltitude(...belowAltitude),
+                onLocaliser && new SpeedRestriction.OnLocaliser(...onLocaliser),
+            );
+        });
+        set("automaticApproach", () => section.boolean("automaticApproach"));
+        set("strictEntrypoints", () => section.boolean("strictEntrypoints"));
+        set("separationDistance", () => section.number("separationDistance", true));
+        set("usPronunciation", () => section.boolean("usPronunciation", true));
+        set("callsignLettersFrequency", () => section.number("callsignLettersFrequency"));
+        set("metric", () => section.boolean("metric"));
+        set("altimeterInHg", () => section.boolean("altimeterInHg"));
+        set("magneticVariance", () => section.number("magneticVariance"));
+        set("zoom", () => section.number("zoom"));
+        set("wakeSeparation", () => {
+            if (!section.has("wakeSeparation"))
+                return undefined;
+            const rows = section.each("wakeSeparation", fields => {
+                section.arity("wakeSeparation", fields, 12, 12, "12 values");
+                return fields.map((v, i) => section.parseNumber("wakeSeparation", v, i));
+            });
+            if (rows.length !== AirspaceSerializer.WAKE_CATEGORIES.length)
+                throw section.report("wakeSeparation", `Expected ${AirspaceSerializer.WAKE_CATEGORIES.length} lines, got ${rows.length}.`);
+            const matrix = {} as Record<number, WakeSeparation.Row>;
+            AirspaceSerializer.WAKE_CATEGORIES.forEach((category, i) => {
+                const row = rows[i]!;
+                matrix[category] = [0, 1, 2, 3, 4, 5].map(j => [row[j * 2], row[j * 2 + 1]]) as WakeSeparation.Row;
+            });
+            return new WakeSeparation(matrix);
+        });
+        options.beacons ??= [];
+        options.departureFrequencies ??= [];
+
+        if (["center", "elevation", "floorAltitude", "departureDiversionAltitude", "descentAltitude",
+            "separationDistance", "usPronunciation"].some(key => options[key as keyof AirspaceOptions] === undefined)) {
+            section.lines("fixes");
+            return null;
+        }
+
+        const airspace = new Airspace(options as AirspaceOptions);
+        section.each("fixes", fields => {
+            section.arity("fixes", fields, 3, 3, "latitude, longitude and name");
+            if (fields[2] === "")
+                throw section.report("fixes", "Missing fix name.", 2);
+            const fix = AirspaceDeserializer.coordinates(section, "fixes", fields);
+            try {
+                airspace.addFix(NamedFix.fromFix(fix, fields[2]!));
+            }
+            catch (e) {
+                if (e instanceof Registry.CollisionError)
+                    throw section.report("fixes", e.message, 2);
+                throw e;
+            }
+        });
+        return airspace;
+    }
+
+    private airport<T extends typeof PrimaryAirport | typeof SecondaryAirport>(section: Section, airspace: Airspace, type: T): InstanceType<T> {
+        const code = section.string("code", true);
+        const name = section.string("name", true);
+        const pronunciation = section.string("pronunciation", true);
+        const initialClimb = section.number("initialClimb", true);
+
+        let airport: PrimaryAirport;
+        if (type === SecondaryAirport) {
+            const flow = section.number("flow", true);
+            const beacon = section.string("beacon", true);
+            const inboundBeacon = airspace.beacons.find(b => b.name === beacon);
+            if (inboundBeacon === undefined)
+                throw section.report("beacon", `Beacon ${beacon} is not in the airspace beacons.`, 0);
+            airport = new SecondaryAirport(code, name, pronunciation, initialClimb, flow, inboundBeacon);
+        }
+        else airport = new PrimaryAirport(code, name, pronunciation, initialClimb);
+
+        const localizerFixes = new Map<string, Runway.LocalizerFix>();
+        section.each("localizerFixes", fields => {
+            section.arity("localizerFixes", fields, 3, 4, "runway, name, distance and optional pronunciation");
+            const [id, name, distance, pronunciation] = fields as [string, string, string, string?];
+            const d = section.parseNumber("localizerFixes", distance, 2);
+            localizerFixes.set(id, pronunciation === undefined
+                ? new Runway.LocalizerFix(name, d)
+                : new Runway.LocalizerFix(name, pronunciation, d));
+        });
+
+        section.each("runways", fields => {
+            section.arity("runways", fields, 6, 15, "id, name, latitude, longitude, bearing, length and optional runway options");
+            const [id, name, , , bearing, length, displaced, elevation, glideslope, localizer,
+                towerFrequency, towerPronunciation, oppositeDisplaced, oppositeGlideslope, oppositeLocalizer] = fields;
+            if (id === "")
+                throw section.report("runways", "Missing runway id.", 0);
+            if (!/^\d+[LRC]?$/.test(name!))
+                throw section.report("runways", `Invalid runway name ‘${name}’.`, 1);
+            const n = (v: string | undefined, field: number) => section.parseOptionalNumber("runways", v, field);
+            airport.addRunway(new Runway({
+                id: id!,
+                name: name as Runway["name"],
+                position: AirspaceDeserializer.coordinates(section, "runways", fields, 2),
+                bearing: section.parseNumber("runways", bearing, 4),
+                length: section.parseNumber("runways", length, 5),
+                displaced: n(displaced, 6),
+                elevation: n(elevation, 7),
+                glideslope: n(glideslope, 8),
+                localizer: n(localizer, 9),
+                localizerFix: localizerFixes.get(id!),
+                towerFrequency: n(towerFrequency, 10),
+                towerPronunciation: towerPronunciation === "" ? undefined : towerPronunciation,
+                opposite: {
+                    displaced: n(oppositeDisplaced, 12),
+                    glideslope: n(oppositeGlideslope, 13),
+                    localizer: n(oppositeLocalizer, 14),
+                    localizerFix: localizerFixes.get(`${id}rev`),
+                },
+            }));
+        });
+
+        section.each("sids", fields => {
+            if (fields.length === 1) {
+                const [fix] = AirspaceDeserializer.fix(section, "sids", fields, airspace);
+                if (!(fix instanceof NamedFix))
+                    throw section.report("sids", "Expected a fix name or latitude, longitude and name.", 0);
+                return airport.addSid(fix instanceof SidFix ? fix : SidFix.fromNamedFix(fix));
+            }
+            section.arity("sids", fields, 3, 4, "latitude, longitude, name and optional pronunciation");
+            const [, , name, pronunciation] = fields;
+            if (name === "")
+                throw section.report("sids", "Missing SID name.", 2);
+            const position = AirspaceDeserializer.coordinates(section, "sids", fields);
+            airport.addSid(new SidFix(position.latitude, position.longitude, name!, pronunciation));
+        });
+
+        section.each("airlines", fields => {
+            section.arity("airlines", fields, 4, 5, "callsign, frequency, types, directions and optional pronunciation");
+            const [callsign, frequency, types, direction, pronunciation] = fields as [string, string, string, string, string?];
+            airport.addAirline(new Airline(
+                callsign,
+                section.parseNumber("airlines", frequency, 1),
+                new Set(types.split("/").map(t => t.trim())),
+                new Set(direction.split("/").map(d => {
+                    d = d.trim().toUpperCase();
+                    if (["N", "E", "S", "W"].includes(d))
+                        return d as CardinalDirection;
+                    return section.parseNumber("airlines", d, 3);
+                })),
+                pronunciation,
+            ));
+        });
+
+        section.each("entryPoints", fields => {
+            section.arity("entryPoints", fields, 1, 3, "bearing, optional altitude and optional beacon");
+            const [bearing, altitude, beacon] = fields;
+            airport.addEntry(new EntryPoint(
+                bearing!,
+                section.parseOptionalNumber("entryPoints", altitude, 1),
+                beacon === "" ? undefined : beacon,
+            ));
+        });
+
+        return airport as InstanceType<T>;
+    }
+
+    private runwayConfiguration(section: Section, airspace: Airspace): RunwayConfiguration {
+        const config = new RunwayConfiguration();
+        section.each("runways", fields => {
+            section.arity("runways", fields, 2, 8, "score, runway and runway options");
+            const [score, id, land, depart, intersection, backtrack, initialHeading, noSID] = fields;
+            const flag = (v: string | undefined, field: number) =>
+                v === undefined || v === "" ? undefined : section.parseBoolean("runways", v, field);
+            config.add(section.parseNumber("runways", score, 0), AirspaceDeserializer.runway(section, "runways", airspace, id!, 1), {
+                land: flag(land, 2),
+                depart: flag(depart, 3),
+                intersection: flag(intersection, 4),
+                backtrack: flag(backtrack, 5),
+                initialHeading: section.parseOptionalNumber("runways", initialHeading, 6),
+                noSID: flag(noSID, 7),
+            });
+        }, true);
+        return config;
+    }
+
+    private termination(section: Section): Arrival.Termination | undefined {
+        const fields = section.fields("termination");
+        if (fields === undefined)
+            return undefined;
+        const [type, ...args] = fields;
+        const n = (i: number) => section.parseOptionalNumber("termination", args[i], i + 1);
+        switch (type) {
+            case "ils":
+                section.arity("termination", fields, 2, 4, "‘ils’, intercept distance, optional altitude and optional speed");
+                return new Arrival.IlsIntercept(section.parseNumber("termination", args[0], 1), n(1), n(2));
+            case "end":
+                section.arity("termination", fields, 1, 2, "‘end’ and optional heading");
+                return new Arrival.End(n(0));
+            case "hold":
+                section.arity("termination", fields, 1, 1, "‘hold’");
+                return new Arrival.Hold();
+            default:
+                throw section.report("termination", `Unknown termination ‘${type}’.`, 0);
+        }
+    }
+
+    private arrival(section: Section, airspace: Airspace): Arrival {
+        const name = section.string("name", true);
+        const pronunciation = section.string("pronunciation", true);
+        const runways = section.fields("runways", true)
+            .map((id, i) => AirspaceDeserializer.runway(section, "runways", airspace, id, i));
+        const beaconFields = section.fields("beacon", true);
+        let beacon: Beacon;
+        if (beaconFields.length === 1) {
+            const fix = airspace.beacons.find(b => b.name === beaconFields[0]);
+            if (fix === undefined)
+                throw section.report("beacon", `Beacon ${beaconFields[0]} is not in the airspace beacons.`, 0);
+            beacon = fix;
+        }
+        else beacon = this.beacon(section, "beacon", beaconFields);
+        const inboundBearing = section.number("inboundBearing");
+        const route = AirspaceDeserializer.route(section, airspace);
+        const termination = this.termination(section);
+        return inboundBearing === undefined
+            ? new Arrival(name, pronunciation, runways, beacon, route, termination)
+            : new Arrival(name, pronunciation, runways, beacon, inboundBearing, route, termination);
+    }
+
+    private departure(section: Section, airspace: Airspace): Departure {
+        const name = section.string("name", true);
+        const pronunciation = section.string("pronunciation", true);
+        const runway = AirspaceDeserializer.runway(section, "runway", airspace, section.string("runway", true), 0);
+        const initialClimb = section.number("initialClimb");
+        const route = AirspaceDeserializer.route(section, airspace);
+        return initialClimb === undefined
+            ? new Departure(name, pronunciation, runway, route)
+            : new Departure(name, pronunciation, runway, initialClimb, route);
+    }
+
+    private area(section: Section, airspace: Airspace): Area | CircleArea {
+        const name = section.string("name");
+        const altitude = section.number("altitude", true);
+        const labelFields = section.fields("label", true);
+        section.arity("label", labelFields, 2, 2, "latitude and longitude");
+        const label = AirspaceDeserializer.coordinates(section, "label", labelFields);
+        if (section.has("radius")) {
+            const centerFields = section.fields("center", true);
+            const [center, n] = AirspaceDeserializer.fix(section, "center", centerFields, airspace);
+            section.arity("center", centerFields, n, n, n === 1 ? "a fix name" : "latitude and longitude");
+            const radius = section.number("radius", true);
+            const arc = section.fields("visibleArc");
+            if (arc !== undefined)
+                section.arity("visibleArc", arc, 2, 2, "start and end bearings");
+            const visibleArc = arc?.map((v, i) => section.parseNumber("visibleArc", v, i)) as [number, number] | undefined;
+            return name === undefined
+                ? new CircleArea(altitude, center, radius, label, visibleArc)
+                : new CircleArea(name, altitude, center, radius, label, visibleArc);
+        }
+        const points = section.each("points", fields => {
+            section.arity("points", fields, 2, 2, "latitude and longitude");
+            return AirspaceDeserializer.coordinates(section, "points", fields);
+        }, true);
+        const invisible = section.number("invisible");
+        return name === undefined
+            ? new Area(altitude, label, points, invisible)
+            : new Area(name, altitude, label, points, invisible);
+    }
+
+    private polyline(section: Section): Polyline {
+        const color = section.fields("color");
+        const points = section.each("points", fields => {
+            section.arity("points", fields, 2, 2, "latitude and longitude");
+            return AirspaceDeserializer.coordinates(section, "points", fields);
+        }, true);
+        if (color === undefined)
+            return new Polyline(points);
+        if (color.length === 3) {
+            const [r, g, b] = color.map((c, i) => section.parseNumber("color", c, i)) as [number, number, number];
+            try {
+                return new Polyline(points, new Polyline.RGB(r, g, b));
+            }
+            catch (e) {
+                if (e instanceof RangeError)
+                    throw section.report("color", e.message);
+                throw e;
+            }
+        }
+        if (color.length === 1 && ["coast", "airspace", "runway"].includes(color[0]!))
+            return new Polyline(points, color[0] as Polyline.Color);
+        throw section.report("color", `Unknown colour ‘${color.join(", ")}’.`);
+    }
+}
+
+export namespace AirspaceDeserializer {
+    /**
+     * Thrown to indicate that an airspace could not be read.
+     */
+    export class FormatError extends Error {
+        /**
+         * @param diagnostics The problems found while reading the airspace.
+         */
+        public constructor(public readonly diagnostics: ReadonlyArray<Diagnostic>) {
+            super(`Unable to read airspace:\n${diagnostics.map(d => `  ${d}`).join("\n")}`);
+        }
+    }
+}
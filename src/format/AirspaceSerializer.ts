@@ -0,0 +1,397 @@
+import {Airline} from "../Airline.js";
+import {Airspace} from "../airspace/Airspace.js";
+import {EntryPoint} from "../EntryPoint.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {ApproachFix} from "../navigation/ApproachFix.js";
+import {Beacon} from "../navigation/Beacon.js";
+import {Departure} from "../navigation/Departure.js";
+import {Fix} from "../navigation/Fix.js";
+import {SidFix} from "../navigation/SidFix.js";
+import {Ini, IniBaseValue, stringifyIni} from "../parseIni.js";
+import {PrimaryAirport} from "../PrimaryAirport.js";
+import {Runway} from "../Runway.js";
+import {RunwayConfiguration} from "../RunwayConfiguration.js";
+import {SecondaryAirport} from "../SecondaryAirport.js";
+import {Area} from "../shapes/Area.js";
+import {CircleArea} from "../shapes/CircleArea.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {Radius} from "../shapes/Radius.js";
+import {Shape} from "../shapes/Shape.js";
+import {WakeCategory} from "../WakeCategory.js";
+
+type Section = Record<string, IniBaseValue | IniBaseValue[]>;
+
+/**
+ * Converts an {@link Airspace} to the Endless ATC custom airspace format.
+ *
+ * The output consists of the following sections:
+ *  - `[airspace]` — the airspace options, {@link Airspace#beacons beacons}, named fixes from the {@link Registry} and
+ *    {@link Airspace#departureFrequencies departure hand-off frequencies}.
+ *  - `[airport1]` — the {@link PrimaryAirport}.
+ *  - `[airport2]`, `[airport3]`, … — the {@link SecondaryAirport secondary airports}.
+ *  - `[config1]`, `[config2]`, … — the {@link RunwayConfiguration runway configurations}.
+ *  - `[approach1]`, `[approach2]`, … — the {@link Arrival arrivals}.
+ *  - `[departure1]`, `[departure2]`, … — the {@link Departure departures}.
+ *  - `[area1]`, `[area2]`, … — the {@link Area areas} and {@link CircleArea circle areas}.
+ *  - `[polyline1]`, `[polyline2]`, … — the {@link Airspace#shapes shapes drawn on the radar screen}.
+ *
+ * Lists, such as runways, beacons and routes, are written as multiline values with one item per line. Fields within a
+ * line are separated by commas and optional fields are left empty. Fixes registered in the {@link Registry} are
+ * referenced by name, while other fixes are written as coordinates.
+ */
+export class AirspaceSerializer {
+    readonly #options: Required<AirspaceSerializer.Options>;
+
+    /**
+     * @param [options] Serialisation options.
+     */
+    public constructor(options: AirspaceSerializer.Options = {}) {
+        this.#options = {
+            dms: options.dms ?? true,
+            precision: options.precision ?? 2,
+            references: options.references ?? true,
+        };
+    }
+
+    /**
+     * Get the INI file structure of an airspace.
+     *
+     * @param airspace The airspace to serialise.
+     */
+    public serialize(airspace: Airspace): Ini {
+        const references = this.references(airspace);
+        const ini: Ini = {airspace: this.airspace(airspace)};
+
+        if (airspace.hasPrimaryAirport())
+            ini.airport1 = this.primaryAirport(airspace.getPrimaryAirport());
+        airspace.getSecondaryAirports().forEach((airport, i) => {
+            ini[`airport${i + 2}`] = this.secondaryAirport(airport);
+        });
+        airspace.runwayConfigs.forEach((config, i) => {
+            ini[`config${i + 1}`] = this.runwayConfiguration(config);
+        });
+        airspace.arrivals.forEach((arrival, i) => {
+            ini[`approach${i + 1}`] = this.arrival(arrival, references);
+        });
+        airspace.departures.forEach((departure, i) => {
+            ini[`departure${i + 1}`] = this.departure(departure, references);
+        });
+        airspace.areas.forEach((area, i) => {
+            ini[`area${i + 1}`] = this.area(area, references);
+        });
+        airspace.shapes.forEach((shape, i) => {
+            ini[`polyline${i + 1}`] = this.polyline(shape);
+        });
+
+        return ini;
+    }
+
+    /**
+     * Get the text of an airspace file.
+     *
+     * @param airspace The airspace to serialise.
+     */
+    public stringify(airspace: Airspace): string {
+        return stringifyIni(this.serialize(airspace));
+    }
+
+    /**
+     * Join fields into a line, leaving out trailing omitted fields.
+     */
+    private static line(...fields: (IniBaseValue | undefined)[]): string {
+        while (fields.length > 0 && fields[fields.length - 1] === undefined)
+            fields.pop();
+        return fields.map(f => f ?? "").join(", ");
+    }
+
+    /**
+     * Create a section, leaving out omitted keys and empty lists.
+     */
+    private static section(entries: Record<string, IniBaseValue | IniBaseValue[] | undefined>): Section {
+        const section: Section = {};
+        for (const [key, value] of Object.entries(entries))
+            if (value !== undefined && !(Array.isArray(value) && value.length === 0))
+                section[key] = value;
+        return section;
+    }
+
+    private static key(fix: Fix): string {
+        return `${fix.latitude},${fix.longitude}`;
+    }
+
+    /**
+     * Find the names under which fixes are registered, keyed by their coordinates.
+     */
+    private references(airspace: Airspace): Map<string, string> {
+        const references = new Map<string, string>();
+        if (this.#options.references)
+            for (const fix of airspace.getFixes())
+                if (!references.has(AirspaceSerializer.key(fix)))
+                    references.set(AirspaceSerializer.key(fix), fix.name);
+        return references;
+    }
+
+    private coordinates(fix: Fix): string[] {
+        if (this.#options.dms)
+            return fix.toDms(this.#options.precision);
+        return [fix.latitude.toString(), fix.longitude.toString()];
+    }
+
+    private fix(fix: Fix, references: Map<string, string>): string[] {
+        const name = references.get(AirspaceSerializer.key(fix));
+        return name === undefined ? this.coordinates(fix) : [name];
+    }
+
+    private beacon(beacon: Beacon): string {
+        return AirspaceSerializer.line(
+            ...this.coordinates(beacon),
+            beacon.name,
+            beacon.pronunciation,
+            beacon.holdingPattern?.inboundCourse,
+            beacon.holdingPattern === undefined
+            ? undefined
+            : beacon.holdingPattern.turnDirection === Beacon.TurnDirection.LEFT ? "L" : "R",
+        );
+    }
+
+    private sid(sid: SidFix): string {
+        return AirspaceSerializer.line(...this.coordinates(sid), sid.name, sid.pronunciation);
+    }
+
+    private route(route: Iterable<Fix | ApproachFix>, references: Map<string, string>): string[] {
+        return Array.from(route, fix => fix instanceof ApproachFix
+            ? AirspaceSerializer.line(...this.fix(fix, references), fix.altitude, fix.speed)
+            : AirspaceSerializer.line(...this.fix(fix, references)));
+    }
+
+    private points(shape: Shape): string[] {
+        return shape.vertices.map(v => AirspaceSerializer.line(...this.coordinates(v)));
+    }
+
+    private airspace(airspace: Airspace): Section {
+        const sids = new Set<string>([airspace.hasPrimaryAirport() ? airspace.getPrimaryAirport() : null, ...airspace.getSecondaryAirports()]
+            .flatMap(a => a === null ? [] : Array.from(a.sids, s => s.name)));
+        const beacons = new Set(airspace.beacons.map(b => b.name));
+        const {withinRadius, belowAltitude, onLocaliser} = airspace.speedRestriction;
+
+        return AirspaceSerializer.section({
+            center: AirspaceSerializer.line(...this.coordinates(airspace.center)),
+            radius: airspace.boundary instanceof Radius ? airspace.boundary.radius : undefined,
+            boundary: airspace.boundary instanceof Shape ? this.points(airspace.boundary) : undefined,
+            beacons: airspace.beacons.map(b => this.beacon(b)),
+            fixes: this.#options.references
+                ? airspace.getFixes()
+                    .filter(f => !f.name.startsWith("@") && !beacons.has(f.name) && !sids.has(f.name))
+                    .map(f => AirspaceSerializer.line(...this.coordinates(f), f.name))
+                : undefined,
+            approachCallsign: airspace.approachCallsign,
+            departureCallsign: airspace.departureCallsign,
+            elevation: airspace.elevation,
+            floorAltitude: airspace.floorAltitude,
+            departureDiversionAltitude: airspace.departureDiversionAltitude,
+            transitionalAltitude: airspace.transitionalAltitude,
+            descentAltitude: airspace.descentAltitude,
+            ceilingAltitude: airspace.ceilingAltitude,
+            departureAltitude: airspace.departureAltitude,
+            departureFrequencies: airspace.departureFrequencies.map(f =>
+                AirspaceSerializer.line(f.bearing, f.callsign, f.pronunciation, f.frequency)),
+            speedWithinRadius: AirspaceSerializer.line(withinRadius.radius, withinRadius.speed),
+            speedBelowAltitude: AirspaceSerializer.line(belowAltitude.altitude, belowAltitude.speed),
+            speedOnLocaliser: AirspaceSerializer.line(onLocaliser.distance, onLocaliser.speed),
+            automaticApproach: airspace.automaticApproach,
+            strictEntrypoints: airspace.strictEntrypoints,
+            separationDistance: airspace.separationDistance,
+            usPronunciation: airspace.usPronunciation,
+            callsignLettersFrequency: airspace.callsignLettersFrequency,
+            metric: airspace.metric,
+            altimeterInHg: airspace.altimeterInHg,
+            magneticVariance: airspace.magneticVariance,
+            zoom: airspace.zoom,
+            wakeSeparation: AirspaceSerializer.WAKE_CATEGORIES.map(c =>
+                AirspaceSerializer.line(...airspace.wakeSeparation.rows[c].flat())),
+        });
+    }
+
+    private runway(runway: Runway): string {
+        return AirspaceSerializer.line(
+            runway.id,
+            runway.name,
+            ...this.coordinates(runway.position),
+            runway.bearing,
+            runway.length,
+            runway.displaced,
+            runway.elevation,
+            runway.glideslope,
+            runway.localizer,
+            runway.towerFrequency,
+            runway.towerPronunciation,
+            runway.oppositeDisplaced,
+            runway.oppositeGlideslope,
+            runway.oppositeLocalizer,
+        );
+    }
+
+    private localizerFixes(runways: Iterable<Runway>): string[] {
+        const lines: string[] = [];
+        for (const runway of runways)
+            for (const [id, fix] of [[runway.id, runway.localizerFix], [`${runway.id}rev`, runway.oppositeLocalizerFix]] as const)
+                if (fix !== undefined)
+                    lines.push(AirspaceSerializer.line(id, fix.name, fix.distance, fix.pronunciation));
+        return lines;
+    }
+
+    private airline(airline: Airline): string {
+        return AirspaceSerializer.line(
+            airline.callsign,
+            airline.frequency,
+            Array.from(airline.types).join("/"),
+            Array.from(airline.direction).join("/"),
+            airline.pronunciation,
+        );
+    }
+
+    private entryPoint(entryPoint: EntryPoint): string {
+        return AirspaceSerializer.line(entryPoint.bearing, entryPoint.altitude, entryPoint.beacon);
+    }
+
+    private airport(airport: PrimaryAirport): Section {
+        return {
+            code: airport.code,
+            name: airport.name,
+            pronunciation: airport.pronunciation,
+            initialClimb: airport.initialClimb,
+            runways: Array.from(airport.runways, r => this.runway(r)),
+            localizerFixes: this.localizerFixes(airport.runways),
+            sids: Array.from(airport.sids, s => this.sid(s)),
+            airlines: Array.from(airport.airlines, a => this.airline(a)),
+            entryPoints: Array.from(airport.entryPoints, e => this.entryPoint(e)),
+        };
+    }
+
+    private primaryAirport(airport: PrimaryAirport): Section {
+        return AirspaceSerializer.section(this.airport(airport));
+    }
+
+    private secondaryAirport(airport: SecondaryAirport): Section {
+        return AirspaceSerializer.section({
+            ...this.airport(airport),
+            flow: airport.flow,
+            beacon: airport.inboundBeacon.name,
+        });
+    }
+
+    private runwayConfiguration(config: RunwayConfiguration): Section {
+        return AirspaceSerializer.section({
+            runways: config.scores.map(([score, runway, options]) => AirspaceSerializer.line(
+                score,
+                runway.id,
+                options.land ?? false,
+                options.depart ?? false,
+                options.intersection ?? false,
+                options.backtrack ?? false,
+                options.initialHeading ?? "",
+                options.noSID ?? false,
+            )),
+        });
+    }
+
+    private termination(termination: Arrival.Termination): string | undefined {
+        if (termination instanceof Arrival.IlsIntercept)
+            return AirspaceSerializer.line("ils", termination.distance, termination.altitude, termination.speed);
+        if (termination instanceof Arrival.Hold)
+            return "hold";
+        if (termination instanceof Arrival.End)
+            return AirspaceSerializer.line("end", termination.heading);
+        return undefined;
+    }
+
+    private arrival(arrival: Arrival, references: Map<string, string>): Section {
+        return AirspaceSerializer.section({
+            name: arrival.name,
+            pronunciation: arrival.pronunciation,
+            runways: AirspaceSerializer.line(...arrival.runways.map(r => r.id)),
+            beacon: references.get(AirspaceSerializer.key(arrival.beacon)) === arrival.beacon.name
+                ? arrival.beacon.name
+                : this.beacon(arrival.beacon),
+            inboundBearing: arrival.inboundBearing,
+            route: this.route(arrival.route, references),
+            termination: this.termination(arrival.termination),
+        });
+    }
+
+    private departure(departure: Departure, references: Map<string, string>): Section {
+        return AirspaceSerializer.section({
+            name: departure.name,
+            pronunciation: departure.pronunciation,
+            runway: departure.runway.id,
+            initialClimb: departure.initialClimb,
+            route: this.route(departure.route, references),
+        });
+    }
+
+    private area(area: Area | CircleArea, references: Map<string, string>): Section {
+        if (area instanceof CircleArea)
+            return AirspaceSerializer.section({
+                name: area.name,
+                altitude: area.altitude,
+                center: AirspaceSerializer.line(...this.fix(area.center, references)),
+                radius: area.radius,
+                label: AirspaceSerializer.line(...this.coordinates(area.label)),
+                visibleArc: area.visibleArc === undefined ? undefined : AirspaceSerializer.line(...area.visibleArc),
+            });
+        return AirspaceSerializer.section({
+            name: area.name,
+            altitude: area.altitude,
+            label: AirspaceSerializer.line(...this.coordinates(area.label)),
+            points: this.points(area),
+            invisible: area.invisible,
+        });
+    }
+
+    private polyline(shape: Shape): Section {
+        const color = shape instanceof Polyline ? shape.color : undefined;
+        return AirspaceSerializer.section({
+            color: color instanceof Polyline.RGB ? AirspaceSerializer.line(color.r, color.g, color.b) : color,
+            points: this.points(shape),
+        });
+    }
+}
+
+export namespace AirspaceSerializer {
+    /**
+     * Options for serialising an airspace.
+     */
+    export interface Options {
+        /**
+         * Whether to write coordinates in DMS notation (see {@link Fix#toDms}) instead of decimal degrees.
+         * @default true
+         */
+        dms?: boolean;
+
+        /**
+         * Number of decimal places for the seconds of DMS coordinates.
+         * @default 2
+         */
+        precision?: number;
+
+        /**
+         * Whether to reference fixes registered in the {@link Registry} by name and list them under the `fixes` key
+         * of the `[airspace]` section.
+         * @default true
+         */
+        references?: boolean;
+    }
+
+    /**
+     * Wake turbulence categories in the order of the rows of the `wakeSeparation` table.
+     * @internal
+     */
+    export const WAKE_CATEGORIES: readonly WakeCategory[] = [
+        WakeCategory.SUPER_HEAVY,
+        WakeCategory.UPPER_HEAVY,
+        WakeCategory.LOWER_HEAVY,
+        WakeCategory.UPPER_MEDIUM,
+        WakeCategory.LOWER_MEDIUM,
+        WakeCategory.LIGHT,
+    ];
+}
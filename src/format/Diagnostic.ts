@@ -0,0 +1,49 @@
+/**
+ * A problem found while reading an airspace file.
+ */
+export class Diagnostic {
+    /**
+     * @param severity How severe the problem is.
+     * @param message Description of the problem.
+     * @param [section] The section in which the problem was found, if any.
+     * @param [key] The key at which the problem was found, if any.
+     * @param [line] The line at which the problem was found, starting from 1.
+     * @param [column] The column at which the problem was found, starting from 1.
+     */
+    public constructor(
+        public readonly severity: Diagnostic.Severity,
+        public readonly message: string,
+        public readonly section?: string,
+        public readonly key?: string,
+        public readonly line?: number,
+        public readonly column?: number,
+    ) {}
+
+    /**
+     * Format this diagnostic as a single line, e.g. `3:14 error [airspace] center: Expected latitude and longitude.`
+     */
+    public toString(): string {
+        const position = this.line === undefined ? null : `${this.line}:${this.column ?? 1}`;
+        const location = [this.section !== undefined ? `[${this.section}]` : null, this.key ?? null]
+            .filter(s => s !== null).join(" ");
+        return [position, this.severity, location === "" ? null : `${location}:`, this.message]
+            .filter(s => s !== null).join(" ");
+    }
+}
+
+export namespace Diagnostic {
+    /**
+     * Severity of a diagnostic.
+     */
+    export const enum Severity {
+        /**
+         * The value could not be read and was skipped.
+         */
+        ERROR = "error",
+
+        /**
+         * The file could be read, but probably not as intended.
+         */
+        WARNING = "warning",
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * GeoJSON objects, as specified in RFC 7946.
+ */
+export namespace GeoJson {
+    /**
+     * A position: longitude and latitude in degrees, optionally followed by elevation in metres.
+     */
+    export type Position = [longitude: number, latitude: number, elevation?: number];
+
+    export interface Point {
+        type: "Point";
+        coordinates: Position;
+    }
+
+    export interface MultiPoint {
+        type: "MultiPoint";
+        coordinates: Position[];
+    }
+
+    export interface LineString {
+        type: "LineString";
+        coordinates: Position[];
+    }
+
+    export interface MultiLineString {
+        type: "MultiLineString";
+        coordinates: Position[][];
+    }
+
+    /**
+     * A polygon. The first ring is the exterior ring and any others are holes. Each ring is closed: its last position
+     * is the same as its first.
+     */
+    export interface Polygon {
+        type: "Polygon";
+        coordinates: Position[][];
+    }
+
+    export interface MultiPolygon {
+        type: "MultiPolygon";
+        coordinates: Position[][][];
+    }
+
+    export interface GeometryCollection {
+        type: "GeometryCollection";
+        geometries: Geometry[];
+    }
+
+    export type Geometry = Point | MultiPoint | LineString | MultiLineString | Polygon | MultiPolygon | GeometryCollection;
+
+    export interface Feature<G extends Geometry | null = Geometry | null, P = Record<string, unknown> | null> {
+        type: "Feature";
+        id?: string | number;
+        geometry: G;
+        properties: P;
+    }
+
+    export interface FeatureCollection<G extends Geometry | null = Geometry | null, P = Record<string, unknown> | null> {
+        type: "FeatureCollection";
+        features: Feature<G, P>[];
+    }
+}
@@ -0,0 +1,432 @@
+import {Beacon} from "../navigation/Beacon.js";
+import {Fix} from "../navigation/Fix.js";
+import {NamedFix} from "../navigation/NamedFix.js";
+import {AzimuthalEquidistant} from "../projection/AzimuthalEquidistant.js";
+import {Area} from "../shapes/Area.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {GeoJson} from "./GeoJson.js";
+
+/**
+ * Reads {@link Area areas}, {@link Polyline polylines} and {@link NamedFix named fixes} from GeoJSON.
+ *
+ * Features are read as follows:
+ *  - `Polygon` and `MultiPolygon` — an {@link Area} for each polygon, with the altitude, name and label read from the
+ *    {@link GeoJsonDeserializer.Options properties configured in the options}. An area cannot have holes, so each
+ *    hole is cut out of its polygon through a narrow channel from the exterior. If there is no label, it is placed
+ *    inside the area, near its centroid.
+ *  - `LineString` and `MultiLineString` — a {@link Polyline} for each line string, with the colour read from a
+ *    property as a colour name (`coast`, `airspace` or `runway`), a hex colour (`#rrggbb` or `#rgb`), or an array of
+ *    red, green and blue components.
+ *  - `Point` — a {@link Beacon} if the feature has a pronunciation, otherwise a {@link NamedFix}. The name is
+ *    required.
+ *  - `GeometryCollection` — each of its geometries, with the properties of the feature.
+ *
+ * Geometries that cross the antimeridian may either use longitudes on both sides of it, e.g. 179.5 followed by
+ * -179.5, or be split at it into parts of a `MultiPolygon` or `MultiLineString`. Split parts are joined back together.
+ *
+ * Features that cannot be read, e.g. areas without an altitude, points without a name, or geometries with too few
+ * positions, are skipped and reported in {@link skipped}.
+ */
+export class GeoJsonDeserializer {
+    /**
+     * Features that were skipped while reading, in the order they were found.
+     */
+    public readonly skipped: GeoJsonDeserializer.Skipped[] = [];
+
+    readonly #options: Required<Omit<GeoJsonDeserializer.Options, "defaultAltitude">> & Pick<GeoJsonDeserializer.Options, "defaultAltitude">;
+
+    /**
+     * @param [options] Options for reading the properties of features.
+     */
+    public constructor(options: GeoJsonDeserializer.Options = {}) {
+        this.#options = {
+            name: options.name ?? "name",
+            altitude: options.altitude ?? "altitude",
+            defaultAltitude: options.defaultAltitude,
+            label: options.label ?? "label",
+            color: options.color ?? "color",
+            pronunciation: options.pronunciation ?? "pronunciation",
+        };
+    }
+
+    /**
+     * Read GeoJSON text.
+     *
+     * @param text The GeoJSON text.
+     * @throws {@link !SyntaxError} If the text is not valid JSON.
+     */
+    public parse(text: string): GeoJsonDeserializer.Result {
+        return this.deserialize(JSON.parse(text));
+    }
+
+    /**
+     * Read a GeoJSON object.
+     *
+     * @param geoJson A feature collection, a feature, or a geometry.
+     */
+    public deserialize(geoJson: GeoJson.FeatureCollection | GeoJson.Feature | GeoJson.Geometry): GeoJsonDeserializer.Result {
+        this.skipped.length = 0;
+        const result: GeoJsonDeserializer.Result = {areas: [], polylines: [], fixes: []};
+        const features: GeoJson.Feature[] = geoJson.type === "FeatureCollection"
+            ? geoJson.features
+            : geoJson.type === "Feature"
+                ? [geoJson]
+                : [{type: "Feature", geometry: geoJson, properties: null}];
+        features.forEach((feature, index) => {
+            // read into a separate result, so that nothing is kept from a skipped geometry collection
+            const read: GeoJsonDeserializer.Result = {areas: [], polylines: [], fixes: []};
+            try {
+                this.feature(feature, feature.geometry, read);
+            }
+            catch (e) {
+                if (!(e instanceof GeoJsonDeserializer.SkipError))
+                    throw e;
+                this.skipped.push(new GeoJsonDeserializer.Skipped(index, feature.id, e.message));
+                return;
+            }
+            result.areas.push(...read.areas);
+            result.polylines.push(...read.polylines);
+            result.fixes.push(...read.fixes);
+        });
+        return result;
+    }
+
+    private feature(feature: GeoJson.Feature, geometry: GeoJson.Geometry | null, result: GeoJsonDeserializer.Result): void {
+        const properties = feature.properties ?? {};
+        if (geometry === null)
+            throw new GeoJsonDeserializer.SkipError("The feature has no geometry.");
+        switch (geometry.type) {
+            case "Polygon":
+                result.areas.push(...this.areas([geometry.coordinates], properties));
+                break;
+            case "MultiPolygon":
+                result.areas.push(...this.areas(geometry.coordinates, properties));
+                break;
+            case "LineString":
+                result.polylines.push(...this.polylines([geometry.coordinates], properties));
+                break;
+            case "MultiLineString":
+                result.polylines.push(...this.polylines(geometry.coordinates, properties));
+                break;
+            case "Point":
+                result.fixes.push(this.point(geometry.coordinates, properties));
+                break;
+            case "GeometryCollection":
+                for (const g of geometry.geometries)
+                    this.feature(feature, g, result);
+                break;
+            default:
+                throw new GeoJsonDeserializer.SkipError(`Unsupported geometry type ${(geometry as GeoJson.Geometry).type}.`);
+        }
+    }
+
+    private areas(polygons: GeoJson.Position[][][], properties: Record<string, unknown>): Area[] {
+        const name = GeoJsonDeserializer.string(properties[this.#options.name]);
+        const altitude = GeoJsonDeserializer.number(properties[this.#options.altitude]) ?? this.#options.defaultAltitude;
+        if (altitude === undefined)
+            throw new GeoJsonDeserializer.SkipError(`The area has no numeric ‘${this.#options.altitude}’ property.`);
+        const label = properties[this.#options.label];
+        const create = (vertices: Fix[], label: Fix) => name === undefined
+            ? new Area(altitude, label, vertices)
+            : new Area(name, altitude, label, vertices);
+
+        const parts: Area[] = polygons.flatMap(([exterior, ...holes]) => {
+            if (exterior === undefined)
+                throw new GeoJsonDeserializer.SkipError("A polygon has no exterior ring.");
+            let pieces = [create(GeoJsonDeserializer.ring(exterior), new Fix(0, 0))];
+            for (const hole of holes) {
+                const cut = create(GeoJsonDeserializer.ring(hole), new Fix(0, 0));
+                pieces = pieces.flatMap(p => p.difference(cut));
+            }
+            if (pieces.length === 0)
+                throw new GeoJsonDeserializer.SkipError("A polygon is entirely covered by its holes.");
+            return pieces;
+        });
+        // join polygons that were split at the antimeridian
+        const areas = GeoJsonDeserializer.join(parts, (a, b) => {
+            if (!a.vertices.some(GeoJsonDeserializer.onAntimeridian) || !b.vertices.some(GeoJsonDeserializer.onAntimeridian))
+                return undefined;
+            const union = a.union(b);
+            return union.length === 1 ? union[0] : undefined;
+        });
+        return areas.map(area => {
+            const joined = create(GeoJsonDeserializer.removeSeam(area.vertices), new Fix(0, 0));
+            return create(joined.vertices.map(GeoJsonDeserializer.normalise), label === undefined
+                ? GeoJsonDeserializer.normalise(GeoJsonDeserializer.labelPosition(joined))
+                : GeoJsonDeserializer.fix(label as GeoJson.Position));
+        });
+    }
+
+    private polylines(lines: GeoJson.Position[][], properties: Record<string, unknown>): Polyline[] {
+        const color = GeoJsonDeserializer.color(properties[this.#options.color]);
+        const parts = lines.map(line => {
+            if (line.length < 2)
+                throw new GeoJsonDeserializer.SkipError("A line string has fewer than 2 positions.");
+            return line.map(p => GeoJsonDeserializer.fix(p));
+        });
+        // join lines that were split at the antimeridian
+        return GeoJsonDeserializer.join(parts, (a, b) => {
+            const [end, start] = [a[a.length - 1]!, b[0]!];
+            return GeoJsonDeserializer.onAntimeridian(end) && GeoJsonDeserializer.onAntimeridian(start)
+                && Math.abs(end.latitude - start.latitude) < 1e-9
+                ? [...a, ...b.slice(1)]
+                : undefined;
+        }).map(vertices => new Polyline(vertices, color));
+    }
+
+    private point(position: GeoJson.Position, properties: Record<string, unknown>): NamedFix {
+        const fix = GeoJsonDeserializer.fix(position);
+        const name = GeoJsonDeserializer.string(properties[this.#options.name]);
+        if (name === undefined)
+            throw new GeoJsonDeserializer.SkipError(`The point has no ‘${this.#options.name}’ property.`);
+        const pronunciation = GeoJsonDeserializer.string(properties[this.#options.pronunciation]);
+        if (pronunciation === undefined)
+            return NamedFix.fromFix(fix, name);
+        const hold = properties["holdingPattern"] as {inboundCourse?: unknown, turnDirection?: unknown} | undefined;
+        const inboundCourse = GeoJsonDeserializer.number(hold?.inboundCourse);
+        return Beacon.fromFix(fix, name, pronunciation, inboundCourse === undefined ? undefined : new Beacon.HoldingPattern(
+            inboundCourse,
+            hold?.turnDirection === "left" ? Beacon.TurnDirection.LEFT : Beacon.TurnDirection.RIGHT,
+        ));
+    }
+
+    /**
+     * Repeatedly join pairs of items, until no more pairs can be joined.
+     *
+     * @param items The items.
+     * @param join Join two items, returning `undefined` if they cannot be joined.
+     */
+    private static join<T>(items: T[], join: (a: T, b: T) => T | undefined): T[] {
+        const result = Array.from(items);
+        for (let i = 0; i < result.length; ++i)
+            for (let j = 0; j < result.length; ++j) {
+                if (i === j)
+                    continue;
+                const joined = join(result[i]!, result[j]!);
+                if (joined === undefined)
+                    continue;
+                result[i] = joined;
+                result.splice(j, 1);
+                if (j < i)
+                    --i;
+                j = -1;
+            }
+        return result;
+    }
+
+    private static onAntimeridian(fix: Fix): boolean {
+        return Math.abs(fix.longitude) === 180;
+    }
+
+    /**
+     * Bring the longitude of a fix into [-180, 180], e.g. after joining polygons across the antimeridian.
+     */
+    private static normalise(fix: Fix): Fix {
+        if (Math.abs(fix.longitude) <= 180)
+            return fix;
+        return new Fix(fix.latitude, ((fix.longitude + 180) % 360 + 360) % 360 - 180);
+    }
+
+    /**
+     * Remove the vertices on the antimeridian that are left on a straight edge where polygons were joined, including
+     * repeated vertices and zero-width spikes along the seam. Vertices within 1e-4° (about 10 m) of the antimeridian
+     * and of the line through their neighbours are removed.
+     */
+    private static removeSeam(vertices: ReadonlyArray<Fix>): Fix[] {
+        const tolerance = 1e-4;
+        const result = Array.from(vertices);
+        for (let removed = true; removed && result.length > 3;) {
+            removed = false;
+            for (let i = 0; i < result.length && result.length > 3; ++i) {
+                const fix = result[i]!;
+                if (Math.abs(Math.abs(GeoJsonDeserializer.normalise(fix).longitude) - 180) > tolerance)
+                    continue;
+                const previous = result[(i + result.length - 1) % result.length]!;
+                const next = result[(i + 1) % result.length]!;
+                const [dx, dy] = [next.longitude - previous.longitude, next.latitude - previous.latitude];
+                const length = Math.hypot(dx, dy);
+                const cross = (fix.longitude - previous.longitude) * dy - (fix.latitude - previous.latitude) * dx;
+                if (length > tolerance && Math.abs(cross) > tolerance * length)
+                    continue;
+                result.splice(i--, 1);
+                removed = true;
+            }
+        }
+        return result;
+    }
+
+    private static fix(position: GeoJson.Position): Fix {
+        const [longitude, latitude] = Array.isArray(position) ? position : [];
+        if (typeof longitude !== "number" || typeof latitude !== "number" || !Number.isFinite(longitude)
+            || !Number.isFinite(latitude) || Math.abs(latitude) > 90)
+            throw new GeoJsonDeserializer.SkipError(`Invalid position ${JSON.stringify(position)}.`);
+        return new Fix(latitude, Math.abs(longitude) === 180 ? longitude : ((longitude + 180) % 360 + 360) % 360 - 180);
+    }
+
+    /**
+     * Get the vertices of a linear ring, without the closing position.
+     */
+    private static ring(ring: GeoJson.Position[]): Fix[] {
+        const vertices = ring.map(p => GeoJsonDeserializer.fix(p));
+        const [first, last] = [vertices[0], vertices[vertices.length - 1]];
+        if (vertices.length > 1 && first!.latitude === last!.latitude && first!.longitude === last!.longitude)
+            vertices.pop();
+        if (vertices.length < 3)
+            throw new GeoJsonDeserializer.SkipError("A polygon ring has fewer than 3 positions.");
+        return vertices;
+    }
+
+    /**
+     * Find a position for the label of an area: its centroid, or, if the centroid is outside the area, the middle of
+     * the widest part of the area on the east–west line through the centroid.
+     */
+    private static labelPosition(area: Area): Fix {
+        const plane = AzimuthalEquidistant.around(area.vertices);
+        const ring = area.project(plane);
+        let [cx, cy, a] = [0, 0, 0];
+        for (let i = 0; i < ring.length; ++i) {
+            const [x1, y1] = ring[i]!;
+            const [x2, y2] = ring[(i + 1) % ring.length]!;
+            const cross = x1 * y2 - x2 * y1;
+            a += cross;
+            cx += (x1 + x2) * cross;
+            cy += (y1 + y2) * cross;
+        }
+        if (a === 0)
+            return area.vertices[0]!;
+        [cx, cy] = [cx / (3 * a), cy / (3 * a)];
+        const centroid = plane.unproject([cx, cy]);
+        if (area.contains(centroid))
+            return centroid;
+
+        const crossings: number[] = [];
+        for (let i = 0; i < ring.length; ++i) {
+            const [x1, y1] = ring[i]!;
+            const [x2, y2] = ring[(i + 1) % ring.length]!;
+            if ((y1 > cy) !== (y2 > cy))
+                crossings.push(x1 + (cy - y1) / (y2 - y1) * (x2 - x1));
+        }
+        crossings.sort((a, b) => a - b);
+        let best: [number, number] | undefined;
+        for (let i = 0; i + 1 < crossings.length; i += 2)
+            if (best === undefined || crossings[i + 1]! - crossings[i]! > best[1] - best[0])
+                best = [crossings[i]!, crossings[i + 1]!];
+        return best === undefined ? area.vertices[0]! : plane.unproject([(best[0] + best[1]) / 2, cy]);
+    }
+
+    private static string(value: unknown): string | undefined {
+        if (typeof value === "string" && value !== "")
+            return value;
+        if (typeof value === "number")
+            return value.toString();
+        return undefined;
+    }
+
+    private static number(value: unknown): number | undefined {
+        const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+        return typeof number === "number" && Number.isFinite(number) ? number : undefined;
+    }
+
+    /**
+     * Read a colour, falling back to {@link Polyline.Color.AIRSPACE} if it is missing or invalid.
+     */
+    private static color(value: unknown): Polyline.Color | Polyline.RGB {
+        if (value === "coast" || value === "airspace" || value === "runway")
+            return value as Polyline.Color;
+        if (Array.isArray(value) && value.length >= 3 && value.slice(0, 3).every(c => Number.isInteger(c) && c >= 0 && c <= 255))
+            return new Polyline.RGB(value[0], value[1], value[2]);
+        if (typeof value === "string") {
+            const hex = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(value.trim())?.[1];
+            if (hex !== undefined)
+                return Polyline.RGB.hex(Number.parseInt(hex.length === 3 ? hex.replace(/./g, "$&$&") : hex, 16));
+        }
+        return Polyline.Color.AIRSPACE;
+    }
+}
+
+export namespace GeoJsonDeserializer {
+    /**
+     * Names of the feature properties to read.
+     */
+    export interface Options {
+        /**
+         * Property with the name of an area or point.
+         * @default "name"
+         */
+        name?: string;
+
+        /**
+         * Property with the altitude restriction of an area, in feet.
+         * @default "altitude"
+         */
+        altitude?: string;
+
+        /**
+         * Altitude restriction, in feet, of areas without the {@link altitude} property. If not set, such areas are
+         * skipped.
+         */
+        defaultAltitude?: number;
+
+        /**
+         * Property with the position of the label of an area, as a GeoJSON position.
+         * @default "label"
+         */
+        label?: string;
+
+        /**
+         * Property with the colour of a polyline. Use `"stroke"` for GeoJSON that follows the simplestyle
+         * specification.
+         * @default "color"
+         */
+        color?: string;
+
+        /**
+         * Property with the pronunciation of a point. Points with a pronunciation are read as beacons.
+         * @default "pronunciation"
+         */
+        pronunciation?: string;
+    }
+
+    /**
+     * The objects read from GeoJSON.
+     */
+    export interface Result {
+        areas: Area[];
+        polylines: Polyline[];
+
+        /**
+         * Named fixes and {@link Beacon beacons}.
+         */
+        fixes: NamedFix[];
+    }
+
+    /**
+     * A feature that was skipped.
+     */
+    export class Skipped {
+        /**
+         * @param index Index of the feature in the feature collection.
+         * @param id The `id` of the feature, if any.
+         * @param reason Why the feature was skipped.
+         */
+        public constructor(
+            public readonly index: number,
+            public readonly id: string | number | undefined,
+            public readonly reason: string,
+        ) {}
+
+        /**
+         * Format this as a single line, e.g. `feature 3: The point has no ‘name’ property.`
+         */
+        public toString(): string {
+            return `feature ${this.index}${this.id === undefined ? "" : ` (${this.id})`}: ${this.reason}`;
+        }
+    }
+
+    /**
+     * Thrown while reading a feature that has to be skipped.
+     *
+     * @internal
+     */
+    export class SkipError extends Error {}
+}
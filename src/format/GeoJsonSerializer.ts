@@ -0,0 +1,435 @@
+import {Airspace} from "../airspace/Airspace.js";
+import {ApproachFix} from "../navigation/ApproachFix.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {Beacon} from "../navigation/Beacon.js";
+import {Departure} from "../navigation/Departure.js";
+import {Fix} from "../navigation/Fix.js";
+import {NamedFix} from "../navigation/NamedFix.js";
+import {SidFix} from "../navigation/SidFix.js";
+import {Runway} from "../Runway.js";
+import {Area} from "../shapes/Area.js";
+import {Circle} from "../shapes/Circle.js";
+import {CircleArea} from "../shapes/CircleArea.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {Radius} from "../shapes/Radius.js";
+import {Shape} from "../shapes/Shape.js";
+import {GeoJson} from "./GeoJson.js";
+
+/**
+ * Converts an {@link Airspace} to a GeoJSON feature collection, e.g. to review it in a GIS application.
+ *
+ * The collection contains, in order:
+ *  - the {@link Airspace#boundary boundary}, as a polygon;
+ *  - the {@link Area areas} and {@link CircleArea circle areas}, as polygons;
+ *  - the {@link Airspace#shapes shapes drawn on the radar screen}, as line strings;
+ *  - the runways, as line strings from one end of the runway to the other;
+ *  - the {@link Arrival arrivals} and {@link Departure departures}, as line strings;
+ *  - the fixes registered in the {@link Registry}, as points.
+ *
+ * Every feature has a `kind` property that identifies the type of its other properties; see
+ * {@link GeoJsonSerializer.Properties}. Polygons follow the right-hand rule: exterior rings are anticlockwise.
+ */
+export class GeoJsonSerializer {
+    readonly #options: Required<GeoJsonSerializer.Options>;
+
+    /**
+     * @param [options] Serialisation options.
+     */
+    public constructor(options: GeoJsonSerializer.Options = {}) {
+        this.#options = {
+            segments: options.segments ?? 72,
+        };
+    }
+
+    /**
+     * Get the GeoJSON feature collection of an airspace.
+     *
+     * @param airspace The airspace to serialise.
+     */
+    public serialize(airspace: Airspace): GeoJson.FeatureCollection<GeoJson.Geometry, GeoJsonSerializer.Properties> {
+        return {
+            type: "FeatureCollection",
+            features: [
+                this.boundary(airspace),
+                ...airspace.areas.map(a => this.area(a)),
+                ...airspace.shapes.map(s => this.polyline(s)),
+                ...airspace.getRunways().map(r => this.runway(airspace, r)),
+                ...airspace.arrivals.map(a => this.arrival(a)),
+                ...airspace.departures.map(d => this.departure(d)),
+                ...airspace.getFixes().filter(f => !f.name.startsWith("@")).map(f => this.fix(f)),
+            ],
+        };
+    }
+
+    /**
+     * Get the GeoJSON text of an airspace.
+     *
+     * @param airspace The airspace to serialise.
+     * @param [space] Indentation, as in {@link !JSON.stringify}.
+     */
+    public stringify(airspace: Airspace, space?: string | number): string {
+        return JSON.stringify(this.serialize(airspace), null, space);
+    }
+
+    private static position(fix: Fix): GeoJson.Position {
+        return [fix.longitude, fix.latitude];
+    }
+
+    /**
+     * Get a closed ring of positions that follows the right-hand rule.
+     */
+    private static ring(vertices: ReadonlyArray<Fix>): GeoJson.Position[] {
+        const ring = vertices.map(v => GeoJsonSerializer.position(v));
+        let area = 0;
+        for (let i = 0; i < ring.length; ++i) {
+            const [x1, y1] = ring[i]!;
+            const [x2, y2] = ring[(i + 1) % ring.length]!;
+            area += x1 * y2 - x2 * y1;
+        }
+        if (area < 0)
+            ring.reverse();
+        if (ring.length > 0)
+            ring.push(ring[0]!);
+        return ring;
+    }
+
+    private static feature<G extends GeoJson.Geometry, P extends GeoJsonSerializer.Properties>(geometry: G, properties: P): GeoJson.Feature<G, P> {
+        return {type: "Feature", geometry, properties};
+    }
+
+    private static color(color: Polyline.Color | Polyline.RGB): GeoJsonSerializer.Color {
+        if (!(color instanceof Polyline.RGB))
+            return color;
+        return color.toHex();
+    }
+
+    private boundary(airspace: Airspace): GeoJson.Feature<GeoJson.Polygon, GeoJsonSerializer.BoundaryProperties> {
+        const boundary = airspace.boundary instanceof Shape
+            ? airspace.boundary.vertices
+            : new Circle(airspace.center, airspace.boundary.radius, Polyline.Color.AIRSPACE, this.#options.segments).vertices;
+        return GeoJsonSerializer.feature({type: "Polygon", coordinates: [GeoJsonSerializer.ring(boundary)]}, {
+            kind: "boundary",
+            radius: airspace.boundary instanceof Radius ? airspace.boundary.radius : undefined,
+        });
+    }
+
+    private area(area: Area | CircleArea): GeoJson.Feature<GeoJson.Polygon, GeoJsonSerializer.AreaProperties> {
+        const vertices = area instanceof CircleArea
+            ? new Circle(area.center, area.radius, Polyline.Color.AIRSPACE, this.#options.segments).vertices
+            : area.vertices;
+        return GeoJsonSerializer.feature({type: "Polygon", coordinates: [GeoJsonSerializer.ring(vertices)]}, {
+            kind: "area",
+            name: area.name,
+            altitude: area.altitude,
+            label: GeoJsonSerializer.position(area.label),
+            ...area instanceof CircleArea
+                ? {radius: area.radius, visibleArc: area.visibleArc}
+                : {invisible: area.invisible === Infinity ? "all" : area.invisible},
+        });
+    }
+
+    private polyline(shape: Shape): GeoJson.Feature<GeoJson.LineString, GeoJsonSerializer.PolylineProperties> {
+        return GeoJsonSerializer.feature({type: "LineString", coordinates: shape.vertices.map(v => GeoJsonSerializer.position(v))}, {
+            kind: "polyline",
+            color: shape instanceof Polyline ? GeoJsonSerializer.color(shape.color) : undefined,
+        });
+    }
+
+    private runway(airspace: Airspace, runway: Runway): GeoJson.Feature<GeoJson.LineString, GeoJsonSerializer.RunwayProperties> {
+        const opposite = runway.reverse();
+        const airport = [airspace.hasPrimaryAirport() ? airspace.getPrimaryAirport() : null, ...airspace.getSecondaryAirports()]
+            .find(a => a !== null && a.runways.has(runway));
+        return GeoJsonSerializer.feature({
+            type: "LineString",
+            coordinates: [GeoJsonSerializer.position(runway.position), GeoJsonSerializer.position(opposite.position)],
+        }, {
+            kind: "runway",
+            id: runway.id,
+            name: runway.name,
+            opposite: opposite.name,
+            airport: airport?.code,
+            bearing: runway.bearing,
+            length: runway.length,
+            elevation: runway.elevation,
+            localizer: runway.localizer,
+            oppositeLocalizer: runway.oppositeLocalizer,
+            glideslope: runway.glideslope,
+            oppositeGlideslope: runway.oppositeGlideslope,
+        });
+    }
+
+    private static constraints(route: ReadonlyArray<Fix>): GeoJsonSerializer.Constraints {
+        return {
+            altitudes: route.map(f => f instanceof ApproachFix ? f.altitude ?? null : null),
+            speeds: route.map(f => f instanceof ApproachFix ? f.speed ?? null : null),
+        };
+    }
+
+    private arrival(arrival: Arrival): GeoJson.Feature<GeoJson.LineString, GeoJsonSerializer.ArrivalProperties> {
+        const termination = arrival.termination;
+        return GeoJsonSerializer.feature({
+            type: "LineString",
+            coordinates: [arrival.beacon, ...arrival.route].map(f => GeoJsonSerializer.position(f)),
+        }, {
+            kind: "arrival",
+            name: arrival.name,
+            pronunciation: arrival.pronunciation,
+            runways: arrival.runways.map(r => r.name),
+            beacon: arrival.beacon.name,
+            inboundBearing: arrival.inboundBearing,
+            termination: termination instanceof Arrival.IlsIntercept ? "ils"
+                : termination instanceof Arrival.Hold ? "hold"
+                : "end",
+            interceptDistance: termination instanceof Arrival.IlsIntercept ? termination.distance : undefined,
+            interceptAltitude: termination instanceof Arrival.IlsIntercept ? termination.altitude : undefined,
+            interceptSpeed: termination instanceof Arrival.IlsIntercept ? termination.speed : undefined,
+            heading: termination instanceof Arrival.End ? termination.heading : undefined,
+            ...GeoJsonSerializer.constraints([arrival.beacon, ...arrival.route]),
+        });
+    }
+
+    private departure(departure: Departure): GeoJson.Feature<GeoJson.LineString, GeoJsonSerializer.DepartureProperties> {
+        const fixes = [departure.runway.position, ...departure.route];
+        return GeoJsonSerializer.feature({
+            type: "LineString",
+            coordinates: fixes.map(f => GeoJsonSerializer.position(f)),
+        }, {
+            kind: "departure",
+            name: departure.name,
+            pronunciation: departure.pronunciation,
+            runway: departure.runway.name,
+            initialClimb: departure.initialClimb,
+            ...GeoJsonSerializer.constraints(fixes),
+        });
+    }
+
+    private fix(fix: NamedFix): GeoJson.Feature<GeoJson.Point, GeoJsonSerializer.FixProperties> {
+        const point: GeoJson.Point = {type: "Point", coordinates: GeoJsonSerializer.position(fix)};
+        if (fix instanceof Beacon)
+            return GeoJsonSerializer.feature(point, {
+                kind: "beacon",
+                name: fix.name,
+                pronunciation: fix.pronunciation,
+                holdingPattern: fix.holdingPattern === undefined ? undefined : {
+                    inboundCourse: fix.holdingPattern.inboundCourse,
+                    turnDirection: fix.holdingPattern.turnDirection === Beacon.TurnDirection.LEFT ? "left" : "right",
+                },
+            });
+        if (fix instanceof SidFix)
+            return GeoJsonSerializer.feature(point, {kind: "sid", name: fix.name, pronunciation: fix.pronunciation});
+        return GeoJsonSerializer.feature(point, {kind: "fix", name: fix.name});
+    }
+}
+
+export namespace GeoJsonSerializer {
+    /**
+     * Options for serialising an airspace.
+     */
+    export interface Options {
+        /**
+         * Number of vertices used to approximate circles, such as {@link CircleArea circle areas} and a
+         * {@link Radius} boundary.
+         * @default 72
+         */
+        segments?: number;
+    }
+
+    /**
+     * A polyline colour: one of the {@link Polyline.Color colours configured in-game}, or a custom colour as
+     * `#rrggbb`.
+     */
+    export type Color = Polyline.Color | `#${string}`;
+
+    /**
+     * The properties of a feature, identified by their `kind`.
+     */
+    export type Properties =
+        | BoundaryProperties
+        | AreaProperties
+        | PolylineProperties
+        | RunwayProperties
+        | ArrivalProperties
+        | DepartureProperties
+        | FixProperties;
+
+    /**
+     * The {@link Airspace#boundary boundary} of the airspace.
+     */
+    export interface BoundaryProperties {
+        kind: "boundary";
+
+        /**
+         * Radius of the boundary, in nautical miles, if it is a circle around the centre of the airspace.
+         */
+        radius?: number;
+    }
+
+    /**
+     * An {@link Area} or {@link CircleArea}.
+     */
+    export interface AreaProperties {
+        kind: "area";
+        name?: string;
+
+        /**
+         * The minimum allowed altitude, in feet.
+         */
+        altitude: number;
+
+        /**
+         * Position of the label.
+         */
+        label: GeoJson.Position;
+
+        /**
+         * Radius, in nautical miles, of a {@link CircleArea}.
+         */
+        radius?: number;
+
+        /**
+         * Visible arc of a {@link CircleArea}.
+         */
+        visibleArc?: [start: number, end: number];
+
+        /**
+         * Number of lines from the end of an {@link Area} that are invisible, or `"all"`.
+         */
+        invisible?: number | "all";
+    }
+
+    /**
+     * A shape drawn on the radar screen.
+     */
+    export interface PolylineProperties {
+        kind: "polyline";
+        color?: Color;
+    }
+
+    /**
+     * A runway, from this end to the opposite end.
+     */
+    export interface RunwayProperties {
+        kind: "runway";
+        id: string;
+        name: string;
+        opposite: string;
+
+        /**
+         * Code of the airport of the runway.
+         */
+        airport?: string;
+
+        /**
+         * True bearing of this end, in degrees.
+         */
+        bearing: number;
+
+        /**
+         * Length, in feet.
+         */
+        length: number;
+
+        /**
+         * Elevation, in feet.
+         */
+        elevation?: number;
+        localizer: number;
+        oppositeLocalizer: number;
+        glideslope: number;
+        oppositeGlideslope: number;
+    }
+
+    /**
+     * The {@link ApproachFix} constraints of an arrival or departure.
+     */
+    export interface Constraints {
+        /**
+         * Altitude constraint, in feet, at each position of the line string, or `null`.
+         */
+        altitudes: (number | null)[];
+
+        /**
+         * Speed constraint, in KIAS, at each position of the line string, or `null`.
+         */
+        speeds: (number | null)[];
+    }
+
+    /**
+     * An {@link Arrival}, from its beacon through its route.
+     */
+    export interface ArrivalProperties extends Constraints {
+        kind: "arrival";
+        name: string;
+        pronunciation: string;
+
+        /**
+         * Names of the runways.
+         */
+        runways: string[];
+        beacon: string;
+        inboundBearing?: number;
+        termination: "end" | "hold" | "ils";
+        interceptDistance?: number;
+        interceptAltitude?: number;
+        interceptSpeed?: number;
+
+        /**
+         * Heading at the end of the arrival, in degrees.
+         */
+        heading?: number;
+    }
+
+    /**
+     * A {@link Departure}, from its runway through its route.
+     */
+    export interface DepartureProperties extends Constraints {
+        kind: "departure";
+        name: string;
+        pronunciation: string;
+
+        /**
+         * Name of the runway.
+         */
+        runway: string;
+
+        /**
+         * Initial climb altitude, in feet.
+         */
+        initialClimb?: number;
+    }
+
+    /**
+     * A fix registered in the {@link Registry}.
+     */
+    export type FixProperties = NamedFixProperties | SidFixProperties | BeaconProperties;
+
+    /**
+     * A {@link NamedFix}.
+     */
+    export interface NamedFixProperties {
+        kind: "fix";
+        name: string;
+    }
+
+    /**
+     * A {@link SidFix}.
+     */
+    export interface SidFixProperties {
+        kind: "sid";
+        name: string;
+        pronunciation?: string;
+    }
+
+    /**
+     * A {@link Beacon}.
+     */
+    export interface BeaconProperties {
+        kind: "beacon";
+        name: string;
+        pronunciation: string;
+        holdingPattern?: {
+            inboundCourse: number;
+            turnDirection: "left" | "right";
+        };
+    }
+}
@@ -0,0 +1,596 @@
+import {Ini, IniBaseValue} from "../parseIni.js";
+import {Diagnostic} from "./Diagnostic.js";
+
+/**
+ * A concrete syntax tree of an INI file in the Endless ATC custom airspace dialect.
+ *
+ * Unlike {@link parseIni}, the document keeps comments, blank lines, key order, indentation and line endings, so that
+ * {@link toString} returns the original text unchanged. Sections and keys can be edited in place, in which case only
+ * the edited lines are rewritten.
+ *
+ * @example
+ * const document = IniDocument.parse(text);
+ * document.section("airport1")?.get("runways")?.setLine(0, "27L, 27L, 512752.92N, 0002603.48W, 269.7, 12008");
+ * const updated = document.toString();
+ */
+export class IniDocument {
+    readonly #sections: IniDocument.Section[];
+    readonly #eol: string;
+
+    /**
+     * Syntax problems found while parsing this document, such as lines that are not a section header, key or comment,
+     * multiline values without lines, and repeated sections or keys. Positions refer to the parsed text and are not
+     * updated when the document is edited.
+     */
+    public readonly diagnostics: ReadonlyArray<Diagnostic>;
+
+    private constructor(sections: IniDocument.Section[], eol: string, diagnostics: Diagnostic[]) {
+        this.#sections = sections;
+        this.#eol = eol;
+        this.diagnostics = diagnostics;
+    }
+
+    /**
+     * Parse the text of an INI file. Parsing never fails; problems are reported in {@link diagnostics}.
+     *
+     * @param text The text of the INI file.
+     */
+    public static parse(text: string): IniDocument {
+        const lines = IniDocument.splitLines(text);
+        const eol = lines.find(l => IniDocument.eol(l) !== "")?.match(/\r\n|\r|\n/)?.[0] ?? "\n";
+        const diagnostics: Diagnostic[] = [];
+        const report = (severity: Diagnostic.Severity, message: string, line: number, content: string, key?: string) =>
+            diagnostics.push(new Diagnostic(severity, message, section.name ?? undefined, key, line + 1,
+                content.search(/\S|$/) + 1));
+
+        const sections: IniDocument.Section[] = [new IniDocument.Section(null, null, eol)];
+        let section = sections[0]!;
+        let entry: IniDocument.Entry | null = null;
+        let keys = new Set<string>();
+        let entryLine = 0;
+
+        const finishEntry = () => {
+            if (entry !== null && !entry.multiline && entry.acceptsContinuation())
+                report(Diagnostic.Severity.WARNING, "Missing value. Lines of a multiline value must be indented.",
+                    entryLine, IniDocument.content(entry.lines[0]!), entry.key);
+            entry = null;
+        };
+
+        lines.forEach((line, i) => {
+            const content = IniDocument.content(line);
+            if (entry !== null && entry.acceptsContinuation() && /^[ \t]+\S/.test(content)) {
+                entry.lines.push(line);
+                return;
+            }
+            finishEntry();
+
+            const header = IniDocument.HEADER.exec(content);
+            if (header !== null) {
+                const name = header[1]!.trim();
+                section = new IniDocument.Section(name, line, eol);
+                if (sections.some(s => s.name === name))
+                    report(Diagnostic.Severity.WARNING, "Repeated section. Its keys are merged with the earlier section.", i, content);
+                sections.push(section);
+                keys = new Set(sections.filter(s => s.name === name).flatMap(s => s.entries.map(e => e.key)));
+                return;
+            }
+            if (IniDocument.isTrivia(content)) {
+                section.children.push(new IniDocument.Trivia(line));
+                return;
+            }
+            if (!IniDocument.ENTRY.test(content)) {
+                section.children.push(new IniDocument.Trivia(line));
+                report(Diagnostic.Severity.ERROR,
+                    /^\s*\[/.test(content) ? "Unterminated section header; expected ‘]’."
+                    : /^[ \t]/.test(content) ? "Indented line is not part of a multiline value."
+                    : "Expected a section header, a key-value pair or a comment.",
+                    i, content);
+                return;
+            }
+            entry = new IniDocument.Entry([line], eol);
+            entryLine = i;
+            section.children.push(entry);
+            if (keys.has(entry.key))
+                report(Diagnostic.Severity.WARNING, "Repeated key. Only the last value is used.", i, content, entry.key);
+            keys.add(entry.key);
+        });
+        finishEntry();
+
+        return new IniDocument(sections, eol, diagnostics);
+    }
+
+    /** @internal */
+    public static readonly HEADER = /^\s*\[([^\]]*)]\s*(?:[;#].*)?$/;
+
+    /** @internal */
+    public static readonly ENTRY = /^(\s*)([^=]*?)(\s*=\s*)(.*)$/;
+
+    /**
+     * Split text into lines, keeping the line terminators.
+     *
+     * @internal
+     */
+    public static splitLines(text: string): string[] {
+        return text.match(/[^\r\n]*(?:\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+    }
+
+    /**
+     * Get the line terminator of a line.
+     *
+     * @internal
+     */
+    public static eol(line: string): string {
+        return /(?:\r\n|\r|\n)$/.exec(line)?.[0] ?? "";
+    }
+
+    /**
+     * Get a line without its terminator.
+     *
+     * @internal
+     */
+    public static content(line: string): string {
+        return line.slice(0, line.length - IniDocument.eol(line).length);
+    }
+
+    /**
+     * Whether a line is blank or a comment.
+     *
+     * @internal
+     */
+    public static isTrivia(content: string): boolean {
+        return /^\s*(?:[;#].*)?$/.test(content);
+    }
+
+    /**
+     * Remove an inline comment from a value, as done by {@link parseIni}.
+     *
+     * @internal
+     */
+    public static stripComment(value: string): string {
+        let escaped = false;
+        for (let i = 0; i < value.length; ++i) {
+            const c = value[i]!;
+            if (escaped) escaped = false;
+            else if (c === "\\") escaped = true;
+            else if (c === ";" || c === "#") return value.slice(0, i).trim();
+        }
+        return value.trim();
+    }
+
+    /**
+     * All sections in this document. The first section has a `null` name and holds the lines before the first section
+     * header.
+     */
+    public get sections(): ReadonlyArray<IniDocument.Section> {
+        return this.#sections;
+    }
+
+    /**
+     * Get a section by name.
+     *
+     * @param name The name of the section.
+     */
+    public section(name: string): IniDocument.Section | undefined {
+        return this.#sections.find(s => s.name === name);
+    }
+
+    /**
+     * Add a section to the end of this document.
+     *
+     * @param name The name of the section.
+     * @throws {@link !Error} If a section with this name already exists.
+     */
+    public addSection(name: string): IniDocument.Section {
+        if (this.section(name) !== undefined)
+            throw new Error(`Section [${name}] already exists.`);
+
+        const last = this.#sections[this.#sections.length - 1]!;
+        if (this.toString().length > 0) {
+            last.terminate();
+            const lines = IniDocument.splitLines(this.toString());
+            if (IniDocument.content(lines[lines.length - 1]!).trim() !== "")
+                last.children.push(new IniDocument.Trivia(this.#eol));
+        }
+
+        const section = new IniDocument.Section(name, `[${name}]${this.#eol}`, this.#eol);
+        this.#sections.push(section);
+        return section;
+    }
+
+    /**
+     * Remove a section from this document.
+     *
+     * @param name The name of the section.
+     * @returns Whether the section existed.
+     */
+    public removeSection(name: string): boolean {
+        const index = this.#sections.findIndex(s => s.name === name);
+        if (index < 0)
+            return false;
+        this.#sections.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Find the position of a section or entry in this document.
+     *
+     * @param node A section or entry of this document.
+     * @param [line] The index of a line of the multiline value of the entry.
+     * @param [field] The index of a comma-separated field of the value or of the line.
+     * @returns The line and column, starting from 1, or `undefined` if the node is not part of this document.
+     */
+    public locate(node: IniDocument.Section | IniDocument.Entry, line?: number, field?: number): IniDocument.Position | undefined {
+        let number = 1;
+        for (const section of this.#sections) {
+            if (section === node)
+                return {line: number, column: (section.header ?? "").search(/\S|$/) + 1};
+            if (section.header !== null)
+                ++number;
+            for (const child of section.children) {
+                if (child === node) {
+                    const index = line === undefined ? 0 : child.lineIndex(line);
+                    const content = IniDocument.content(child.lines[index]!);
+                    let column = content.search(/\S|$/);
+                    if (field !== undefined) {
+                        if (index === 0)
+                            column = content.length - child.rawValue().length;
+                        for (let i = 0; i < field && column >= 0; ++i)
+                            column = content.indexOf(",", column) + 1 || -1;
+                        column = column < 0 ? content.length : column + /^\s*/.exec(content.slice(column))![0].length;
+                    }
+                    return {line: number + index, column: column + 1};
+                }
+                number += child instanceof IniDocument.Entry ? child.lines.length : 1;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Get the INI file structure of this document, as returned by {@link parseIni}. Entries of a repeated section are
+     * merged into the first one, with multiline values appended to each other.
+     */
+    public toIni(): Ini {
+        const ini: Ini = {};
+        for (const section of this.#sections) {
+            const existing = section.name === null ? undefined : ini[section.name];
+            const target: Record<string, IniBaseValue | IniBaseValue[]> = section.name === null ? ini as typeof target
+                : typeof existing === "object" && !Array.isArray(existing) ? existing : {};
+            for (const entry of section.entries) {
+                const value = entry.value;
+                const previous = target[entry.key];
+                target[entry.key] = Array.isArray(value)
+                    ? Array.isArray(previous) ? [...previous, ...value] : value
+                    : value === "true" ? true : value === "false" ? false : value;
+            }
+            if (section.name !== null)
+                ini[section.name] = target;
+        }
+        return ini;
+    }
+
+    /**
+     * Get the text of this document.
+     */
+    public toString(): string {
+        return this.#sections.map(s => s.toString()).join("");
+    }
+}
+
+export namespace IniDocument {
+    /**
+     * A position in a document.
+     */
+    export interface Position {
+        /**
+         * Line number, starting from 1.
+         */
+        line: number;
+
+        /**
+         * Column number, starting from 1.
+         */
+        column: number;
+    }
+
+    /**
+     * A blank line, a comment, or a line that could not be parsed.
+     */
+    export class Trivia {
+        /**
+         * @param line The text of the line, including the line terminator.
+         */
+        public constructor(public line: string) {}
+
+        public toString(): string {
+            return this.line;
+        }
+    }
+
+    /**
+     * A key and its single-line or multiline value.
+     */
+    export class Entry {
+        /**
+         * The lines of this entry, including the line terminators. The first line contains the key. Any further lines
+         * are the indented lines of a multiline value, which may include comments.
+         *
+         * @internal
+         */
+        public readonly lines: string[];
+
+        readonly #eol: string;
+
+        /** @internal */
+        public constructor(lines: string[], eol: string) {
+            this.lines = lines;
+            this.#eol = eol;
+        }
+
+        private get parts(): [indent: string, key: string, separator: string, value: string] {
+            const [, indent, key, separator, value] = IniDocument.ENTRY.exec(IniDocument.content(this.lines[0]!))
+                ?? [null, "", IniDocument.content(this.lines[0]!).trim(), "", ""];
+            return [indent!, key!, separator!, value!];
+        }
+
+        /**
+         * The key of this entry.
+         */
+        public get key(): string {
+            return this.parts[1];
+        }
+
+        /**
+         * Whether this entry has a multiline value.
+         */
+        public get multiline(): boolean {
+            return this.lines.length > 1;
+        }
+
+        /**
+         * The value of this entry. Multiline values are returned as an array of lines, without indentation and
+         * comments.
+         */
+        public get value(): string | string[] {
+            if (!this.multiline)
+                return IniDocument.stripComment(this.parts[3]);
+            return this.lines.slice(1)
+                .map(IniDocument.content)
+                .filter(l => !IniDocument.isTrivia(l))
+                .map(l => l.trim());
+        }
+
+        /**
+         * Whether the next line can be a line of a multiline value of this entry.
+         *
+         * @internal
+         */
+        public acceptsContinuation(): boolean {
+            return this.multiline || this.parts[3].trim() === "";
+        }
+
+        private indent(): string {
+            for (const line of this.lines.slice(1)) {
+                const indent = /^[ \t]+/.exec(line)?.[0];
+                if (indent !== undefined)
+                    return indent;
+            }
+            return "    ";
+        }
+
+        private eol(): string {
+            return IniDocument.eol(this.lines[0]!) || this.#eol;
+        }
+
+        /**
+         * Replace the value of this entry. The key and the spacing around the `=` sign are kept. Comments inside a
+         * replaced multiline value are removed.
+         *
+         * @param value A single-line value, or the lines of a multiline value.
+         */
+        public set(value: string | readonly string[]) {
+            const [indent, key, separator] = this.parts;
+            const eol = this.eol();
+            const last = IniDocument.eol(this.lines[this.lines.length - 1]!);
+            const lines = typeof value === "string"
+                ? [`${indent}${key}${separator}${value}`]
+                : [`${indent}${key}${separator.trimEnd()}`, ...value.map(line => `${this.indent()}${line}`)];
+            this.lines.splice(0, this.lines.length, ...lines.map((l, i) => l + (i === lines.length - 1 ? last : eol)));
+            return this;
+        }
+
+        /**
+         * Replace one line of a multiline value. The indentation of the line and all other lines, including comments,
+         * are kept.
+         *
+         * @param index The index of the line in {@link value}.
+         * @param line The new line.
+         * @throws {@link !RangeError} If there is no line at the index.
+         */
+        public setLine(index: number, line: string) {
+            const i = this.lineIndex(index);
+            const original = this.lines[i]!;
+            const indent = /^[ \t]*/.exec(original)![0];
+            this.lines[i] = indent + line + IniDocument.eol(original);
+            return this;
+        }
+
+        /**
+         * Insert a line into a multiline value.
+         *
+         * @param index The index in {@link value} at which to insert the line. Use the number of lines to append.
+         * @param line The new line.
+         * @throws {@link !RangeError} If the index is out of range.
+         */
+        public insertLine(index: number, line: string) {
+            const count = this.multiline ? (this.value as string[]).length : 0;
+            if (index < 0 || index > count)
+                throw new RangeError(`Line ${index} is out of range.`);
+            if (index === count) {
+                const i = this.lines.length - 1;
+                const eol = IniDocument.eol(this.lines[i]!);
+                if (eol === "")
+                    this.lines[i] += this.eol();
+                this.lines.push(`${this.indent()}${line}${eol}`);
+                if (count === 0) {
+                    const [indent, key, separator] = this.parts;
+                    this.lines[0] = `${indent}${key}${separator.trimEnd()}${IniDocument.eol(this.lines[0]!)}`;
+                }
+            }
+            else this.lines.splice(this.lineIndex(index), 0, `${this.indent()}${line}${this.eol()}`);
+            return this;
+        }
+
+        /**
+         * Remove one line of a multiline value.
+         *
+         * @param index The index of the line in {@link value}.
+         * @throws {@link !RangeError} If there is no line at the index.
+         */
+        public removeLine(index: number) {
+            const i = this.lineIndex(index);
+            const [removed] = this.lines.splice(i, 1);
+            if (i === this.lines.length && IniDocument.eol(removed!) === "")
+                this.lines[i - 1] = IniDocument.content(this.lines[i - 1]!);
+            return this;
+        }
+
+        /**
+         * The text of the value on the first line, including any comment.
+         *
+         * @internal
+         */
+        public rawValue(): string {
+            return this.parts[3];
+        }
+
+        /**
+         * Find the index in {@link lines} of a line of a multiline value.
+         *
+         * @internal
+         */
+        public lineIndex(index: number): number {
+            let n = -1;
+            for (let i = 1; i < this.lines.length; ++i)
+                if (!IniDocument.isTrivia(IniDocument.content(this.lines[i]!)) && ++n === index)
+                    return i;
+            throw new RangeError(`Line ${index} is out of range.`);
+        }
+
+        public toString(): string {
+            return this.lines.join("");
+        }
+    }
+
+    /**
+     * A section header and the entries, comments and blank lines that follow it.
+     */
+    export class Section {
+        /**
+         * The entries, comments and blank lines of this section.
+         *
+         * @internal
+         */
+        public readonly children: (Entry | Trivia)[] = [];
+
+        #header: string | null;
+        readonly #eol: string;
+
+        /**
+         * @param name The name of the section, or `null` for the lines before the first section header.
+         * @param header The header line, including the line terminator.
+         * @param eol Line terminator for new lines.
+         * @internal
+         */
+        public constructor(public readonly name: string | null, header: string | null, eol: string) {
+            this.#header = header;
+            this.#eol = eol;
+        }
+
+        /**
+         * The header line, including the line terminator, or `null` for the lines before the first section header.
+         *
+         * @internal
+         */
+        public get header(): string | null {
+            return this.#header;
+        }
+
+        /**
+         * The entries of this section, in order.
+         */
+        public get entries(): ReadonlyArray<Entry> {
+            return this.children.filter(c => c instanceof Entry);
+        }
+
+        /**
+         * Get an entry by key. If the key is repeated, the last entry is returned, as with {@link parseIni}.
+         *
+         * @param key The key.
+         */
+        public get(key: string): Entry | undefined {
+            return this.entries.findLast(e => e.key === key);
+        }
+
+        /**
+         * Set the value of a key. If the key does not exist, it is added after the last entry of this section.
+         *
+         * @param key The key.
+         * @param value A single-line value, or the lines of a multiline value.
+         */
+        public set(key: string, value: string | readonly string[]): Entry {
+            const existing = this.get(key);
+            if (existing !== undefined)
+                return existing.set(value);
+
+            const index = this.children.findLastIndex(c => c instanceof Entry) + 1;
+            this.terminate(index - 1);
+            const entry = new Entry([`${key} = ${this.#eol}`], this.#eol).set(value);
+            this.children.splice(index, 0, entry);
+            return entry;
+        }
+
+        /**
+         * Remove a key from this section. All entries with that key are removed.
+         *
+         * @param key The key.
+         * @returns Whether the key existed.
+         */
+        public delete(key: string): boolean {
+            const length = this.children.length;
+            for (let i = this.children.length - 1; i >= 0; --i) {
+                const child = this.children[i]!;
+                if (child instanceof Entry && child.key === key)
+                    this.children.splice(i, 1);
+            }
+            return this.children.length !== length;
+        }
+
+        /**
+         * Make sure that a child, by default the last line of this section, ends with a line terminator. Index `-1`
+         * refers to the section header.
+         *
+         * @internal
+         */
+        public terminate(index: number = this.children.length - 1) {
+            const child = this.children[index];
+            if (child === undefined) {
+                if (this.#header !== null && IniDocument.eol(this.#header) === "")
+                    this.#header += this.#eol;
+            }
+            else if (child instanceof Trivia) {
+                if (IniDocument.eol(child.line) === "")
+                    child.line += this.#eol;
+            }
+            else {
+                const last = child.lines.length - 1;
+                if (IniDocument.eol(child.lines[last]!) === "")
+                    child.lines[last] += this.#eol;
+            }
+        }
+
+        public toString(): string {
+            return (this.#header ?? "") + this.children.map(c => c.toString()).join("");
+        }
+    }
+}
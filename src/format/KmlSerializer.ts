@@ -0,0 +1,223 @@
+import {Airspace} from "../airspace/Airspace.js";
+import {ApproachFix} from "../navigation/ApproachFix.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {Beacon} from "../navigation/Beacon.js";
+import {Departure} from "../navigation/Departure.js";
+import {Fix} from "../navigation/Fix.js";
+import {Area} from "../shapes/Area.js";
+import {Circle} from "../shapes/Circle.js";
+import {CircleArea} from "../shapes/CircleArea.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {Shape} from "../shapes/Shape.js";
+import {VerticalProfile} from "../validation/VerticalProfile.js";
+
+/**
+ * Converts an {@link Airspace} to KML, e.g. to review it in Google Earth.
+ *
+ * The document has the following folders:
+ *  - Arrivals — each {@link Arrival} as a line extruded down to the ground from its altitude at each fix. Altitudes
+ *    are taken from the {@link ApproachFix} constraints, and interpolated by distance between them. An arrival starts
+ *    at the {@link Airspace#descentAltitude descent altitude} if its first fix has no constraint. An arrival that ends
+ *    with an {@link Arrival.IlsIntercept ILS intercept} continues down the glidepath to the threshold.
+ *  - Departures — each {@link Departure} as an extruded line climbing from the runway through the {@link ApproachFix}
+ *    constraints of its route, interpolated by distance between them, to the initial climb altitude at its last fix
+ *    if that fix has no constraint.
+ *  - Areas — each {@link Area} and {@link CircleArea} as a polygon extruded up to its altitude.
+ *  - Drawings — the {@link Airspace#shapes shapes drawn on the radar screen}, in their colours.
+ *  - Beacons — each {@link Beacon} as a placemark, with its pronunciation and holding pattern.
+ */
+export class KmlSerializer {
+    readonly #options: Required<KmlSerializer.Options>;
+
+    /**
+     * @param [options] Serialisation options.
+     */
+    public constructor(options: KmlSerializer.Options = {}) {
+        this.#options = {
+            segments: options.segments ?? 72,
+            colors: {...Polyline.PREVIEW_COLORS, ...options.colors},
+        };
+    }
+
+    /**
+     * Get the KML document of an airspace.
+     *
+     * @param airspace The airspace to serialise.
+     */
+    public stringify(airspace: Airspace): string {
+        const name = airspace.hasPrimaryAirport() ? airspace.getPrimaryAirport().name : "Airspace";
+        return [
+            `<?xml version="1.0" encoding="UTF-8"?>`,
+            `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+            `<Document>`,
+            `<name>${KmlSerializer.escape(name)}</name>`,
+            ...Object.entries(this.#options.colors).map(([id, color]) => KmlSerializer.style(id, color)),
+            KmlSerializer.style("arrival", Polyline.RGB.hex(0x40C040)),
+            KmlSerializer.style("departure", Polyline.RGB.hex(0x4080FF)),
+            KmlSerializer.style("area", Polyline.RGB.hex(0xC08040), 0x40),
+            KmlSerializer.folder("Arrivals", airspace.arrivals.map(a => this.arrival(airspace, a))),
+            KmlSerializer.folder("Departures", airspace.departures.map(d => this.departure(airspace, d))),
+            KmlSerializer.folder("Areas", airspace.areas.map(a => this.area(a))),
+            KmlSerializer.folder("Drawings", airspace.shapes.map(s => this.drawing(s))),
+            KmlSerializer.folder("Beacons", airspace.beacons.map(b => this.beacon(b))),
+            `</Document>`,
+            `</kml>`,
+            "",
+        ].join("\n");
+    }
+
+    private static escape(text: string): string {
+        return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+    }
+
+    /**
+     * Format a colour as a KML colour, `aabbggrr`.
+     */
+    private static color(color: Polyline.RGB, alpha: number = 0xFF): string {
+        return [alpha, color.b, color.g, color.r].map(c => c.toString(16).padStart(2, "0")).join("");
+    }
+
+    private static style(id: string, color: Polyline.RGB, fill?: number): string {
+        return `<Style id="${id}"><LineStyle><color>${KmlSerializer.color(color)}</color><width>2</width></LineStyle>`
+            + (fill === undefined ? "" : `<PolyStyle><color>${KmlSerializer.color(color, fill)}</color></PolyStyle>`)
+            + `</Style>`;
+    }
+
+    private static folder(name: string, placemarks: string[]): string {
+        return [`<Folder>`, `<name>${name}</name>`, ...placemarks, `</Folder>`].join("\n");
+    }
+
+    /**
+     * @param style ID of a shared style, or an inline `<Style>` element.
+     */
+    private static placemark(name: string, style: string, geometry: string, data: Record<string, string | number | undefined> = {}): string {
+        const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+        return `<Placemark><name>${KmlSerializer.escape(name)}</name>`
+            + (entries.length === 0 ? "" : `<description>${KmlSerializer.escape(entries.map(([key, value]) => `${key}: ${value}`).join("\n"))}</description>`)
+            + (style.startsWith("<") ? style : `<styleUrl>#${style}</styleUrl>`)
+            + (entries.length === 0 ? "" : `<ExtendedData>${entries.map(([key, value]) =>
+                `<Data name="${key}"><value>${KmlSerializer.escape(String(value))}</value></Data>`).join("")}</ExtendedData>`)
+            + geometry + `</Placemark>`;
+    }
+
+    /**
+     * Format coordinates, with altitudes in feet.
+     */
+    private static coordinates(fixes: ReadonlyArray<Fix>, altitudes?: ReadonlyArray<number>): string {
+        return fixes.map((f, i) => altitudes === undefined
+            ? `${f.longitude},${f.latitude}`
+            : `${f.longitude},${f.latitude},${Math.round(altitudes[i]! * Fix.FT * 10) / 10}`).join(" ");
+    }
+
+    private static line(fixes: ReadonlyArray<Fix>, altitudes: ReadonlyArray<number>): string {
+        return `<LineString><extrude>1</extrude><altitudeMode>absolute</altitudeMode>`
+            + `<coordinates>${KmlSerializer.coordinates(fixes, altitudes)}</coordinates></LineString>`;
+    }
+
+    /**
+     * Fill in missing altitudes by interpolating by distance between known altitudes. Altitudes before the first known
+     * altitude and after the last are kept level.
+     */
+    private static interpolate(fixes: ReadonlyArray<Fix>, known: ReadonlyArray<number | undefined>): number[] {
+        const distances = fixes.map((_, i) => i === 0 ? 0 : fixes[i - 1]!.distance(fixes[i]!));
+        for (let i = 1; i < distances.length; ++i)
+            distances[i]! += distances[i - 1]!;
+        const indices = known.flatMap((a, i) => a === undefined ? [] : [i]);
+        return fixes.map((_, i) => {
+            const before = indices.filter(j => j <= i).pop();
+            const after = indices.find(j => j >= i);
+            if (before === undefined || after === undefined || before === after)
+                return known[before ?? after!] ?? 0;
+            const fraction = (distances[i]! - distances[before]!) / (distances[after]! - distances[before]!);
+            return known[before]! + (known[after]! - known[before]!) * fraction;
+        });
+    }
+
+    private arrival(airspace: Airspace, arrival: Arrival): string {
+        const fixes: Fix[] = [arrival.beacon, ...arrival.route];
+        const known = fixes.map(f => f instanceof ApproachFix ? f.altitude : undefined);
+        if (known[0] === undefined)
+            known[0] = airspace.descentAltitude;
+
+        const termination = arrival.termination;
+        const runway = arrival.runways[0];
+        if (termination instanceof Arrival.IlsIntercept && runway !== undefined) {
+            const elevation = runway.elevation ?? airspace.elevation;
+            const glidepath = VerticalProfile.glidepathAltitude(runway, termination.distance, elevation);
+            fixes.push(VerticalProfile.interceptPoint(runway, termination.distance), runway.thr());
+            known.push(Math.min(glidepath, termination.altitude ?? Infinity), elevation);
+        }
+
+        return KmlSerializer.placemark(arrival.name, "arrival", KmlSerializer.line(fixes, KmlSerializer.interpolate(fixes, known)), {
+            pronunciation: arrival.pronunciation,
+            runways: arrival.runways.map(r => r.name).join(", "),
+            termination: termination instanceof Arrival.IlsIntercept ? `ILS intercept at ${termination.distance} nm`
+                : termination instanceof Arrival.Hold ? "hold"
+                : termination instanceof Arrival.End && termination.heading !== undefined ? `end, heading ${termination.heading}`
+                : "end",
+        });
+    }
+
+    private departure(airspace: Airspace, departure: Departure): string {
+        const fixes: Fix[] = [departure.runway.position, ...departure.route];
+        const climb = departure.initialClimb
+            ?? (airspace.hasPrimaryAirport() ? airspace.getPrimaryAirport().initialClimb : airspace.departureAltitude);
+        const known = fixes.map(f => f instanceof ApproachFix ? f.altitude : undefined);
+        known[0] = departure.runway.elevation ?? airspace.elevation;
+        if (fixes.length > 1)
+            known[fixes.length - 1] ??= climb;
+        return KmlSerializer.placemark(departure.name, "departure", KmlSerializer.line(fixes, KmlSerializer.interpolate(fixes, known)), {
+            pronunciation: departure.pronunciation,
+            runway: departure.runway.name,
+            initialClimb: climb,
+        });
+    }
+
+    private area(area: Area | CircleArea): string {
+        const vertices = area instanceof CircleArea
+            ? new Circle(area.center, area.radius, Polyline.Color.AIRSPACE, this.#options.segments).vertices
+            : area.vertices;
+        const ring = [...vertices, ...vertices.slice(0, 1)];
+        const geometry = `<Polygon><extrude>1</extrude><altitudeMode>absolute</altitudeMode><outerBoundaryIs><LinearRing>`
+            + `<coordinates>${KmlSerializer.coordinates(ring, ring.map(() => area.altitude))}</coordinates>`
+            + `</LinearRing></outerBoundaryIs></Polygon>`;
+        return KmlSerializer.placemark(area.name ?? `${area.altitude} ft`, "area", geometry, {altitude: area.altitude});
+    }
+
+    private drawing(shape: Shape): string {
+        const color = shape instanceof Polyline ? shape.color : Polyline.Color.AIRSPACE;
+        const geometry = `<LineString><tessellate>1</tessellate><coordinates>${KmlSerializer.coordinates(shape.vertices)}</coordinates></LineString>`;
+        if (!(color instanceof Polyline.RGB))
+            return KmlSerializer.placemark(color, color, geometry);
+        return KmlSerializer.placemark(color.toHex(), KmlSerializer.style(`rgb-${color.toHex().slice(1)}`, color), geometry);
+    }
+
+    private beacon(beacon: Beacon): string {
+        const hold = beacon.holdingPattern;
+        return KmlSerializer.placemark(beacon.name, Polyline.Color.RUNWAY,
+            `<Point><coordinates>${KmlSerializer.coordinates([beacon])}</coordinates></Point>`, {
+                pronunciation: beacon.pronunciation,
+                holdInboundCourse: hold?.inboundCourse,
+                holdTurns: hold === undefined ? undefined : hold.turnDirection === Beacon.TurnDirection.LEFT ? "left" : "right",
+            });
+    }
+}
+
+export namespace KmlSerializer {
+    /**
+     * Options for serialising an airspace.
+     */
+    export interface Options {
+        /**
+         * Number of vertices used to approximate {@link CircleArea circle areas}.
+         * @default 72
+         */
+        segments?: number;
+
+        /**
+         * Colours of the {@link Polyline.Color in-game colours}.
+         * @default {@link Polyline.PREVIEW_COLORS}
+         */
+        colors?: Partial<Record<Polyline.Color, Polyline.RGB>>;
+    }
+}
@@ -0,0 +1,8 @@
+export {AirspaceDeserializer} from "./AirspaceDeserializer.js";
+export {AirspaceSerializer} from "./AirspaceSerializer.js";
+export {Diagnostic} from "./Diagnostic.js";
+export {GeoJson} from "./GeoJson.js";
+export {GeoJsonDeserializer} from "./GeoJsonDeserializer.js";
+export {GeoJsonSerializer} from "./GeoJsonSerializer.js";
+export {IniDocument} from "./IniDocument.js";
+export {KmlSerializer} from "./KmlSerializer.js";
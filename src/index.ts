@@ -1,13 +1,19 @@
 export * from "./airspace/index.js";
+export * from "./format/index.js";
 export * from "./navigation/index.js";
+export * from "./projection/index.js";
+export * from "./render/index.js";
 export * from "./shapes/index.js";
+export * from "./validation/index.js";
 export {Airline} from "./Airline.js";
 export {EntryPoint} from "./EntryPoint.js";
+export {Frequency} from "./Frequency.js";
 export {FrequencyHandoff} from "./FrequencyHandoff.js";
-export {parseIni, Ini, IniValue, IniBaseValue} from "./parseIni.js";
+export {parseIni, stringifyIni, Ini, IniValue, IniBaseValue} from "./parseIni.js";
 export {PrimaryAirport} from "./PrimaryAirport.js";
 export {Registry} from "./Registry.js";
 export {Runway} from "./Runway.js";
+export {RunwayDrawing} from "./RunwayDrawing.js";
 export {RunwayConfiguration} from "./RunwayConfiguration.js";
 export {SecondaryAirport} from "./SecondaryAirport.js";
 export {WakeCategory} from "./WakeCategory.js";
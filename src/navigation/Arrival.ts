@@ -35,7 +35,7 @@ export class Arrival extends Route<any> {
     public readonly beacon: Beacon;
 
     /**
-     * The inbound bearing for this arrival. If there are multiple arrivals on the specified {@link Beacon}, then an
+     * The inbound bearing for this arrival, in degrees from true north. If there are multiple arrivals on the specified {@link Beacon}, then an
      * arrival route is selected based on the closest inbound bearing to the beacon.
      */
     public readonly inboundBearing?: number;
@@ -56,7 +56,7 @@ export class Arrival extends Route<any> {
      * @param pronunciation The phonetic pronunciation of the arrival name, e.g. ‘Otmet one hotel’.
      * @param runways The runways that need to be active for landings for this arrival to be available.
      * @param beacon The beacon at the start of the arrival.
-     * @param inboundBearing The inbound bearing for this arrival.
+     * @param inboundBearing The inbound bearing for this arrival, in degrees from true north.
      * @param route The sequence of fixes (waypoints) that define the arrival route.
      * @param [termination] How to end the arrival.
      */
@@ -68,7 +68,7 @@ export namespace Beacon {
         /**
          * Constructs a holding pattern.
          *
-         * @param inboundCourse The inbound course (track towards the fix), in degrees.
+         * @param inboundCourse The inbound course (track towards the fix), in degrees from true north.
          * @param [turnDirection=TurnDirection.RIGHT] The direction of turns in the holding pattern.
          */
         public constructor(
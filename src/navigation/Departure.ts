@@ -30,7 +30,8 @@ export class Departure extends Route<Fix> {
     public readonly initialClimb?: number;
 
     /**
-     * The sequence of fixes (waypoints) that define the departure route.
+     * The sequence of fixes (waypoints) that define the departure route. Fixes may be approach fixes with altitude and
+     * speed constraints.
      */
     public readonly route: Fix[];
 
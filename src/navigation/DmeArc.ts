@@ -0,0 +1,79 @@
+import {ApproachFix} from "./ApproachFix.js";
+import {Beacon} from "./Beacon.js";
+import {Fix} from "./Fix.js";
+
+/**
+ * A DME arc: a leg flown at a constant distance from a centre, such as ‘10 DME arc from R-270 to R-180’.
+ *
+ * The arc is approximated by evenly spaced fixes that can be used in {@link Arrival#route} or
+ * {@link Departure#route}.
+ */
+export class DmeArc {
+    /**
+     * Default maximum distance between consecutive fixes, in nautical miles.
+     */
+    public static readonly SPACING = 2;
+
+    /**
+     * Angle swept by the arc, in degrees. Positive for clockwise arcs and negative for anticlockwise arcs.
+     */
+    public readonly sweep: number;
+
+    /**
+     * @param center The centre of the arc, e.g. a {@link Beacon}.
+     * @param radius The radius of the arc, in nautical miles.
+     * @param from The radial on which the arc starts, in degrees from true north.
+     * @param to The radial on which the arc ends, in degrees from true north.
+     * @param [direction=Beacon.TurnDirection.RIGHT] The direction in which the arc is flown.
+     *     {@link Beacon.TurnDirection.RIGHT} flies the arc clockwise, keeping the centre on the right.
+     * @throws {@link !RangeError} If the arc starts and ends on the same radial.
+     */
+    public constructor(
+        public readonly center: Fix,
+        public readonly radius: number,
+        public readonly from: number,
+        public readonly to: number,
+        public readonly direction: Beacon.TurnDirection = Beacon.TurnDirection.RIGHT,
+    ) {
+        const clockwise = ((to - from) % 360 + 360) % 360;
+        if (clockwise === 0)
+            throw new RangeError(`DME arc must start and end on different radials (${from}° and ${to}°).`);
+        this.sweep = direction === Beacon.TurnDirection.RIGHT ? clockwise : clockwise - 360;
+    }
+
+    /**
+     * The length of the arc, in nautical miles.
+     */
+    public get length(): number {
+        return Fix.degToRad(Math.abs(this.sweep)) * this.radius;
+    }
+
+    /**
+     * Get evenly spaced fixes along the arc, including both ends.
+     *
+     * @param [spacing=DmeArc.SPACING] Maximum distance between consecutive fixes, in nautical miles.
+     */
+    public fixes(spacing: number = DmeArc.SPACING): Fix[] {
+        const segments = Math.max(1, Math.ceil(this.length / spacing));
+        return Array.from({length: segments + 1},
+            (_, i) => this.center.destination(this.from + this.sweep * i / segments, this.radius));
+    }
+
+    /**
+     * Get evenly spaced approach fixes along the arc, including both ends.
+     *
+     * @param [altitude] Altitude constraint, in feet, at every fix. If a range is given, the constraint changes
+     *     linearly from the start to the end of the arc, rounded to 100 feet.
+     * @param [speed] Speed constraint, in KIAS, at every fix.
+     * @param [spacing=DmeArc.SPACING] Maximum distance between consecutive fixes, in nautical miles.
+     */
+    public approachFixes(altitude?: number | [start: number, end: number], speed?: number, spacing: number = DmeArc.SPACING): ApproachFix[] {
+        const fixes = this.fixes(spacing);
+        return fixes.map((fix, i) => ApproachFix.from(fix,
+            Array.isArray(altitude)
+                ? Math.round((altitude[0] + (altitude[1] - altitude[0]) * i / (fixes.length - 1)) / 100) * 100
+                : altitude,
+            speed,
+        ));
+    }
+}
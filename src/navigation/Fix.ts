@@ -101,11 +101,23 @@ export class Fix {
             ?? (/[-−]/.test(dms) ? -1 : 1);
     }
 
-    private static parseDms(dms: string): number {
+    /**
+     * Parse a single DMS coordinate, such as a latitude or longitude, to decimal degrees.
+     *
+     * @see {@link fromDms} for the accepted formats.
+     *
+     * @param dms Coordinate in DMS.
+     * @returns The coordinate in decimal degrees.
+     * @throws {@link !SyntaxError} If the DMS components cannot be determined from the string.
+     * @throws {@link !RangeError} If the DMS components are not within the expected ranges.
+     */
+    public static parseDms(dms: string): number {
         const sign = this.determineDmsSign(dms);
         const [d, m, s] = (
-            /^\D*(\d{1,3}?(?:\.\d+)?)\D*(\d{1,2}(?:\.\d+)?)\D*(\d{1,2}(?:\.\d+)?)\D*$/
-                .exec(dms)
+            // components separated by non-digits, e.g. 51°28′39.63″ or N51.28.39.63
+            (/^\D*(\d{1,3})\D+(\d{1,2})\D+(\d{1,2}(?:\.\d+)?)\D*$/.exec(dms)
+                // components without separators, e.g. 512839.63N
+                ?? /^\D*(\d{1,3}?(?:\.\d+)?)\D*(\d{1,2}(?:\.\d+)?)\D*(\d{1,2}(?:\.\d+)?)\D*$/.exec(dms))
                 ?.slice(1)
                 .map(Number.parseFloat)
         ) as [number, number, number] | null ?? (() => {
@@ -122,6 +134,39 @@ export class Fix {
         return sign * (d + m / 60 + s / 3600);
     }
 
+    private static formatDms(value: number, degreeDigits: 2 | 3, precision: number): string {
+        const scale = 10 ** precision;
+        const total = Math.round(Math.abs(value) * 3600 * scale);
+        const d = Math.floor(total / (3600 * scale));
+        const m = Math.floor((total - d * 3600 * scale) / (60 * scale));
+        const s = (total - d * 3600 * scale - m * 60 * scale) / scale;
+        const [si, sf] = s.toFixed(precision).split(".") as [string, string?];
+        return d.toString().padStart(degreeDigits, "0")
+            + m.toString().padStart(2, "0")
+            + si.padStart(2, "0")
+            + (sf !== undefined ? `.${sf}` : "");
+    }
+
+    /**
+     * Get the coordinates of this fix in DMS (degrees, minutes, seconds) notation.
+     *
+     * The coordinates are formatted as `DDMMSS.ss` followed by the cardinal direction for the latitude, and
+     * `DDDMMSS.ss` followed by the cardinal direction for the longitude. The result can be parsed with
+     * {@link fromDms}.
+     *
+     * @example new Fix(51.477675, -0.433283).toDms() // ["512839.63N", "0002559.82W"]
+     *
+     * @param [precision=2] Number of decimal places for the seconds.
+     */
+    public toDms(precision: number = 2): [latitude: string, longitude: string] {
+        return [
+            Fix.formatDms(this.latitude, 2, precision)
+            + (this.latitude < 0 ? CardinalDirection.SOUTH : CardinalDirection.NORTH),
+            Fix.formatDms(this.longitude, 3, precision)
+            + (this.longitude < 0 ? CardinalDirection.WEST : CardinalDirection.EAST),
+        ];
+    }
+
     /**
      * Get the coordinates of this fix in radians.
      */
@@ -248,17 +293,26 @@ export class Fix {
      * Find the great circle distance between two fixes.
      *
      * @param other The other fix.
-     * @returns The distance between the two fixes, in metres.
+     * @returns The distance between the two fixes, in nautical miles.
      */
     public distance(other: Fix): number {
+        return this.angularDistance(other) * Fix.R / Fix.NMI;
+    }
+
+    /**
+     * Find the angular distance between two fixes.
+     *
+     * @param other The other fix.
+     * @returns The angular distance, in radians.
+     */
+    private angularDistance(other: Fix): number {
         const [φ1, λ1] = this.toRadians();
         const [φ2, λ2] = other.toRadians();
         const Δφ = φ2 - φ1;
         const Δλ = λ2 - λ1;
         const a = Math.sin(Δφ / 2) ** 2
             + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-        return Fix.R * c;
+        return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
     }
 
     /**
@@ -277,4 +331,182 @@ export class Fix {
         const θ = Math.atan2(y, x);
         return (Fix.radToDeg(θ) + 360) % 360;
     }
+
+    /**
+     * Find the final bearing when arriving at another fix along the great circle from this fix.
+     *
+     * @param other The other fix.
+     * @returns The final bearing, in degrees from true north.
+     */
+    public finalBearing(other: Fix): number {
+        return (other.initialBearing(this) + 180) % 360;
+    }
+
+    /**
+     * Find the point halfway between this fix and another along the great circle.
+     *
+     * @param other The other fix.
+     */
+    public midpoint(other: Fix): Fix {
+        return this.intermediatePoint(other, 0.5);
+    }
+
+    /**
+     * Find a point at a fraction of the way from this fix to another along the great circle.
+     *
+     * @param other The other fix.
+     * @param fraction Fraction of the distance, where 0 is this fix and 1 is the other fix.
+     */
+    public intermediatePoint(other: Fix, fraction: number): Fix {
+        const [φ1, λ1] = this.toRadians();
+        const [φ2, λ2] = other.toRadians();
+        const δ = this.angularDistance(other);
+        if (δ === 0)
+            return new Fix(this.latitude, this.longitude);
+        const a = Math.sin((1 - fraction) * δ) / Math.sin(δ);
+        const b = Math.sin(fraction * δ) / Math.sin(δ);
+        const x = a * Math.cos(φ1) * Math.cos(λ1) + b * Math.cos(φ2) * Math.cos(λ2);
+        const y = a * Math.cos(φ1) * Math.sin(λ1) + b * Math.cos(φ2) * Math.sin(λ2);
+        const z = a * Math.sin(φ1) + b * Math.sin(φ2);
+        return Fix.fromRadians(Math.atan2(z, Math.hypot(x, y)), Math.atan2(y, x));
+    }
+
+    /**
+     * Find the distance of this fix from the great circle path through two fixes.
+     *
+     * @param start The start of the path.
+     * @param end The end of the path.
+     * @returns The distance, in nautical miles. Positive if this fix is to the right of the path, and negative if it
+     *     is to the left.
+     */
+    public crossTrackDistance(start: Fix, end: Fix): number {
+        const δ13 = start.angularDistance(this);
+        const Δθ = Fix.degToRad(start.initialBearing(this) - start.initialBearing(end));
+        return Math.asin(Math.sin(δ13) * Math.sin(Δθ)) * Fix.R / Fix.NMI;
+    }
+
+    /**
+     * Find the distance from the start of a great circle path to the point on the path closest to this fix.
+     *
+     * @param start The start of the path.
+     * @param end The end of the path.
+     * @returns The distance, in nautical miles. Negative if the closest point is behind the start of the path.
+     */
+    public alongTrackDistance(start: Fix, end: Fix): number {
+        const δ13 = start.angularDistance(this);
+        const Δθ = Fix.degToRad(start.initialBearing(this) - start.initialBearing(end));
+        const δxt = Math.asin(Math.sin(δ13) * Math.sin(Δθ));
+        const δat = Math.acos(Math.min(1, Math.cos(δ13) / Math.cos(δxt)));
+        return Math.sign(Math.cos(Δθ)) * δat * Fix.R / Fix.NMI;
+    }
+
+    /**
+     * Find the distance between two fixes along a rhumb line (line of constant bearing).
+     *
+     * @param other The other fix.
+     * @returns The distance, in nautical miles.
+     */
+    public rhumbDistance(other: Fix): number {
+        const [φ1, λ1] = this.toRadians();
+        const [φ2, λ2] = other.toRadians();
+        const Δφ = φ2 - φ1;
+        let Δλ = Math.abs(λ2 - λ1);
+        if (Δλ > Math.PI)
+            Δλ = 2 * Math.PI - Δλ;
+        const Δψ = Math.log(Math.tan(Math.PI / 4 + φ2 / 2) / Math.tan(Math.PI / 4 + φ1 / 2));
+        const q = Math.abs(Δψ) > 1e-12 ? Δφ / Δψ : Math.cos(φ1);
+        return Math.hypot(Δφ, q * Δλ) * Fix.R / Fix.NMI;
+    }
+
+    /**
+     * Find the constant bearing of the rhumb line from this fix to another.
+     *
+     * @param other The other fix.
+     * @returns The bearing, in degrees from true north.
+     */
+    public rhumbBearing(other: Fix): number {
+        const [φ1, λ1] = this.toRadians();
+        const [φ2, λ2] = other.toRadians();
+        let Δλ = λ2 - λ1;
+        if (Math.abs(Δλ) > Math.PI)
+            Δλ = Δλ > 0 ? -(2 * Math.PI - Δλ) : 2 * Math.PI + Δλ;
+        const Δψ = Math.log(Math.tan(Math.PI / 4 + φ2 / 2) / Math.tan(Math.PI / 4 + φ1 / 2));
+        return (Fix.radToDeg(Math.atan2(Δλ, Δψ)) + 360) % 360;
+    }
+
+    /**
+     * Find the destination point from this fix given a constant bearing and distance along a rhumb line.
+     *
+     * @param bearing The bearing from this fix, in degrees from true north.
+     * @param distance The distance, in nautical miles.
+     */
+    public rhumbDestination(bearing: number, distance: number): Fix {
+        const [φ1, λ1] = this.toRadians();
+        const θ = Fix.degToRad(bearing);
+        const δ = distance * Fix.NMI / Fix.R;
+        const Δφ = δ * Math.cos(θ);
+        let φ2 = φ1 + Δφ;
+        // past a pole
+        if (Math.abs(φ2) > Math.PI / 2)
+            φ2 = φ2 > 0 ? Math.PI - φ2 : -Math.PI - φ2;
+        const Δψ = Math.log(Math.tan(φ2 / 2 + Math.PI / 4) / Math.tan(φ1 / 2 + Math.PI / 4));
+        const q = Math.abs(Δψ) > 1e-12 ? Δφ / Δψ : Math.cos(φ1);
+        const λ2 = λ1 + δ * Math.sin(θ) / q;
+        return Fix.fromRadians(φ2, ((λ2 + 3 * Math.PI) % (2 * Math.PI)) - Math.PI);
+    }
+
+    /**
+     * Find the closest point of approach of two aircraft flying constant tracks and speeds from this fix and another.
+     *
+     * The relative motion is computed in a plane tangent at this fix, which is accurate for the distances between
+     * aircraft in an airspace.
+     *
+     * @param track The track from this fix, in degrees from true north.
+     * @param speed The ground speed from this fix, in knots.
+     * @param other The other fix.
+     * @param otherTrack The track from the other fix, in degrees from true north.
+     * @param otherSpeed The ground speed from the other fix, in knots.
+     */
+    public closestApproach(track: number, speed: number, other: Fix, otherTrack: number, otherSpeed: number): Fix.ClosestApproach {
+        const distance = this.distance(other);
+        const bearing = Fix.degToRad(this.initialBearing(other));
+        const [x, y] = [distance * Math.sin(bearing), distance * Math.cos(bearing)];
+        const [θ1, θ2] = [Fix.degToRad(track), Fix.degToRad(otherTrack)];
+        const [vx, vy] = [
+            otherSpeed * Math.sin(θ2) - speed * Math.sin(θ1),
+            otherSpeed * Math.cos(θ2) - speed * Math.cos(θ1),
+        ];
+        const v2 = vx * vx + vy * vy;
+        const time = v2 === 0 ? 0 : Math.max(0, -(x * vx + y * vy) / v2);
+        const position = this.destination(track, speed * time);
+        const otherPosition = other.destination(otherTrack, otherSpeed * time);
+        return {time, distance: position.distance(otherPosition), position, otherPosition};
+    }
+}
+
+export namespace Fix {
+    /**
+     * The closest point of approach of two aircraft.
+     */
+    export interface ClosestApproach {
+        /**
+         * Time until the closest point of approach, in hours. 0 if the aircraft are diverging.
+         */
+        time: number;
+
+        /**
+         * Distance between the aircraft at the closest point of approach, in nautical miles.
+         */
+        distance: number;
+
+        /**
+         * Position of the aircraft from this fix at the closest point of approach.
+         */
+        position: Fix;
+
+        /**
+         * Position of the aircraft from the other fix at the closest point of approach.
+         */
+        otherPosition: Fix;
+    }
 }
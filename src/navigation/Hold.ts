@@ -0,0 +1,119 @@
+import {Circle} from "../shapes/Circle.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {Beacon} from "./Beacon.js";
+import {Fix} from "./Fix.js";
+import {TurnSmoother} from "./TurnSmoother.js";
+
+/**
+ * The geometry of the holding pattern at a {@link Beacon}.
+ *
+ * The hold is a racetrack: the inbound leg ends at the beacon, followed by a 180° turn in the
+ * {@link Beacon.HoldingPattern#turnDirection direction of the hold}, the outbound leg, and another 180° turn back to
+ * the inbound leg.
+ */
+export class Hold {
+    /**
+     * The holding pattern.
+     */
+    public readonly pattern: Beacon.HoldingPattern;
+
+    /**
+     * True airspeed, in knots.
+     */
+    public readonly speed: number;
+
+    /**
+     * Bank angle in the turns, in degrees.
+     */
+    public readonly bankAngle: number;
+
+    /**
+     * Length of the inbound and outbound legs, in nautical miles.
+     */
+    public readonly legLength: number;
+
+    /**
+     * Radius of the turns, in nautical miles.
+     */
+    public readonly turnRadius: number;
+
+    /**
+     * @param beacon The beacon.
+     * @param [options] Hold parameters.
+     * @throws {@link !Error} If the beacon has no holding pattern.
+     */
+    public constructor(public readonly beacon: Beacon, options: Hold.Options = {}) {
+        this.pattern = beacon.holdingPattern ?? (() => {
+            throw new Error(`Beacon ${beacon.name} has no holding pattern.`);
+        })();
+        this.speed = options.speed ?? 230;
+        this.bankAngle = options.bankAngle ?? 25;
+        this.legLength = options.legDistance ?? (options.legTime ?? 1) * this.speed / 60;
+        this.turnRadius = TurnSmoother.turnRadius(this.speed, this.bankAngle);
+    }
+
+    /**
+     * Get the racetrack flown in the hold.
+     *
+     * @param [color=Polyline.Color.AIRSPACE] The colour of the polyline.
+     * @param [segments=18] Number of segments used to approximate each turn.
+     */
+    public racetrack(color: Polyline.Color | Polyline.RGB = Polyline.Color.AIRSPACE, segments: number = 18): Polyline {
+        const θ = this.pattern.inboundCourse;
+        const side = this.pattern.turnDirection;
+        const r = this.turnRadius;
+        const turn = (center: Fix, start: number) => Array.from({length: segments + 1},
+            (_, i) => center.destination(start + side * 180 * i / segments, r));
+
+        const abeam = this.beacon.destination(θ + 90 * side, 2 * r);
+        const outbound = abeam.destination(θ + 180, this.legLength);
+        return new Polyline([
+            ...turn(this.beacon.destination(θ + 90 * side, r), θ - 90 * side),
+            ...turn(outbound.destination(θ - 90 * side, r), θ + 90 * side),
+            this.beacon,
+        ], color);
+    }
+
+    /**
+     * Get a simplified protected area of the hold: the racetrack and the turns of entries from any direction,
+     * enlarged by a buffer. This is not a full PANS-OPS holding area template.
+     *
+     * @param [buffer=2] Distance, in nautical miles, around the racetrack and entries.
+     * @param [color=Polyline.Color.AIRSPACE] The colour of the polyline.
+     */
+    public protectedArea(buffer: number = 2, color: Polyline.Color | Polyline.RGB = Polyline.Color.AIRSPACE): Polyline {
+        const entries = new Circle(this.beacon, 2 * this.turnRadius, color, 72);
+        const [area] = this.racetrack(color).union(entries);
+        return area!.offset(buffer);
+    }
+}
+
+export namespace Hold {
+    /**
+     * Parameters of a hold.
+     */
+    export interface Options {
+        /**
+         * True airspeed, in knots.
+         * @default 230
+         */
+        speed?: number;
+
+        /**
+         * Bank angle in the turns, in degrees.
+         * @default 25
+         */
+        bankAngle?: number;
+
+        /**
+         * Time flown on the outbound leg, in minutes. Ignored if {@link legDistance} is set.
+         * @default 1
+         */
+        legTime?: number;
+
+        /**
+         * Length of the outbound leg, in nautical miles.
+         */
+        legDistance?: number;
+    }
+}
@@ -0,0 +1,186 @@
+import {Runway} from "../Runway.js";
+import {VerticalProfile} from "../validation/VerticalProfile.js";
+import {ApproachFix} from "./ApproachFix.js";
+import {Arrival} from "./Arrival.js";
+import {Beacon} from "./Beacon.js";
+import {Fix} from "./Fix.js";
+
+/**
+ * Builds the final approach to a runway: {@link ApproachFix approach fixes} on or near the extended localiser, with
+ * altitude constraints from the glidepath, ending with an {@link Arrival.IlsIntercept}.
+ *
+ * @example
+ * // straight-in approach with an IF at 14 nm and a FAF at 10 nm
+ * new InstrumentApproach(runway).build([{distance: 14, speed: 210}, {distance: 10, speed: 180}]);
+ * @example
+ * // RNP-style approach with fixes 5 nm either side of the extended centreline
+ * new InstrumentApproach(runway).build([{distance: 12, offset: -5}, {distance: 12}, 8]);
+ */
+export class InstrumentApproach {
+    /**
+     * Elevation of the threshold, in feet.
+     */
+    public readonly elevation: number;
+
+    /**
+     * Altitude constraints are rounded down to a multiple of this value, in feet, so that the glidepath is always
+     * intercepted from below.
+     */
+    public readonly rounding: number;
+
+    /**
+     * @param runway The runway end to land on.
+     * @param [options] Approach options.
+     */
+    public constructor(public readonly runway: Runway, options: InstrumentApproach.Options = {}) {
+        this.elevation = options.elevation ?? runway.elevation ?? 0;
+        this.rounding = options.rounding ?? 100;
+    }
+
+    /**
+     * Get a position relative to the extended localiser.
+     *
+     * @param distance Distance from the (displaced) threshold along the localiser, in nautical miles.
+     * @param [offset=0] Distance from the localiser, in nautical miles. Positive is to the right of an aircraft on
+     *     final approach.
+     */
+    public position(distance: number, offset: number = 0): Fix {
+        const point = VerticalProfile.interceptPoint(this.runway, distance);
+        return offset === 0 ? point : point.destination(this.runway.localizer + 90, offset);
+    }
+
+    /**
+     * Get the altitude constraint for a track distance to the threshold.
+     *
+     * @param distance Distance flown to the (displaced) threshold, in nautical miles.
+     * @returns The glidepath altitude, rounded down to {@link rounding}.
+     */
+    public altitude(distance: number): number {
+        const altitude = VerticalProfile.glidepathAltitude(this.runway, distance, this.elevation);
+        return Math.floor(altitude / this.rounding) * this.rounding;
+    }
+
+    /**
+     * Build the approach.
+     *
+     * The points are given in the order in which they are flown. The last point is where the ILS is intercepted, and
+     * must be on the localiser. The altitude of each fix is taken from the glidepath at the distance flown from the
+     * fix, through the following fixes, to the threshold.
+     *
+     * @param [points] The approach points. Defaults to the {@link Runway#localizerFix localiser fix} of the runway.
+     * @throws {@link !Error} If the points are empty, or are not given and the runway has no localiser fix.
+     * @throws {@link !RangeError} If the last point is not on the localiser.
+     */
+    public build(points?: ReadonlyArray<InstrumentApproach.Point>): InstrumentApproach.Result {
+        const resolved = (points ?? [this.runway.localizerFix ?? (() => {
+            throw new Error(`Runway ${this.runway.name} has no localiser fix.`);
+        })()]).map(p => InstrumentApproach.resolve(p));
+        const last = resolved[resolved.length - 1];
+        if (last === undefined)
+            throw new Error("An approach needs at least one point.");
+        if ((last.offset ?? 0) !== 0)
+            throw new RangeError(`The ILS must be intercepted on the localiser, but the last point is offset by ${last.offset} nm.`);
+
+        const positions = resolved.map(p => this.position(p.distance, p.offset));
+        // track distance from each fix to the threshold, through the following fixes
+        const remaining = new Array<number>(positions.length);
+        remaining[positions.length - 1] = last.distance;
+        for (let i = positions.length - 2; i >= 0; --i)
+            remaining[i] = remaining[i + 1]! + positions[i]!.distance(positions[i + 1]!);
+
+        const route = positions.map((position, i) => ApproachFix.from(position,
+            resolved[i]!.altitude ?? this.altitude(remaining[i]!),
+            resolved[i]!.speed));
+        const intercept = route[route.length - 1]!;
+        return {route, termination: new Arrival.IlsIntercept(last.distance, intercept.altitude, intercept.speed)};
+    }
+
+    /**
+     * Build an arrival that flies the approach to this runway.
+     *
+     * @param name The name or identifier of the arrival.
+     * @param pronunciation The phonetic pronunciation of the arrival name.
+     * @param beacon The beacon at the start of the arrival.
+     * @param [points] The approach points, as in {@link build}.
+     * @param [route] Fixes flown before the approach.
+     * @throws {@link !Error} If the points are empty, or are not given and the runway has no localiser fix.
+     * @throws {@link !RangeError} If the last point is not on the localiser.
+     */
+    public arrival(name: string, pronunciation: string, beacon: Beacon, points?: ReadonlyArray<InstrumentApproach.Point>, route: (Fix | ApproachFix)[] = []): Arrival {
+        const approach = this.build(points);
+        return new Arrival(name, pronunciation, [this.runway], beacon, [...route, ...approach.route], approach.termination);
+    }
+
+    private static resolve(point: InstrumentApproach.Point): InstrumentApproach.Leg {
+        if (typeof point === "number")
+            return {distance: point};
+        if (point instanceof Runway.LocalizerFix)
+            return {distance: point.distance};
+        return point;
+    }
+}
+
+export namespace InstrumentApproach {
+    /**
+     * Options for building an approach.
+     */
+    export interface Options {
+        /**
+         * Elevation of the threshold, in feet. Defaults to the {@link Runway#elevation runway elevation}, or 0.
+         */
+        elevation?: number;
+
+        /**
+         * Altitude constraints are rounded down to a multiple of this value, in feet.
+         * @default 100
+         */
+        rounding?: number;
+    }
+
+    /**
+     * A fix of the approach.
+     */
+    export interface Leg {
+        /**
+         * Distance from the (displaced) threshold along the localiser, in nautical miles.
+         */
+        distance: number;
+
+        /**
+         * Distance from the localiser, in nautical miles. Positive is to the right of an aircraft on final approach.
+         * @default 0
+         */
+        offset?: number;
+
+        /**
+         * Altitude constraint, in feet. Defaults to the glidepath altitude.
+         */
+        altitude?: number;
+
+        /**
+         * Speed constraint, in KIAS.
+         */
+        speed?: number;
+    }
+
+    /**
+     * A point of the approach: a fix, a distance from the threshold on the localiser, or a localiser fix of the
+     * runway.
+     */
+    export type Point = Leg | number | Runway.LocalizerFix;
+
+    /**
+     * A built approach.
+     */
+    export interface Result {
+        /**
+         * The approach fixes, in the order in which they are flown.
+         */
+        route: ApproachFix[];
+
+        /**
+         * ILS intercept at the last fix, with its altitude and speed constraints.
+         */
+        termination: Arrival.IlsIntercept;
+    }
+}
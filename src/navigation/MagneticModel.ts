@@ -0,0 +1,203 @@
+import {Fix} from "./Fix.js";
+
+/**
+ * A spherical harmonic model of the Earth’s main magnetic field, used to compute the magnetic declination (variation)
+ * at any {@link Fix}.
+ *
+ * Declination is positive when magnetic north is east of true north. A magnetic bearing is the true bearing minus the
+ * declination.
+ */
+export class MagneticModel {
+    /**
+     * The World Magnetic Model 2025 (WMM2025), valid from 2025.0 to 2030.0.
+     */
+    public static readonly WMM2025 = new MagneticModel(2025, [
+        [1, 0, -29351.8, 0, 12, 0], [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+        [2, 0, -2556.6, 0, -11.6, 0], [2, 1, 2951.1, -3133.6, -5.2, -27.7], [2, 2, 1649.3, -815.1, -8, -12.1],
+        [3, 0, 1361, 0, -1.3, 0], [3, 1, -2404.1, -56.6, -4.2, 4], [3, 2, 1243.8, 237.5, 0.4, -0.3], [3, 3, 453.6, -549.5, -15.6, -4.1],
+        [4, 0, 895, 0, -1.6, 0], [4, 1, 799.5, 278.6, -2.4, -1.1], [4, 2, 55.7, -133.9, -6, 4.1], [4, 3, -281.1, 212, 5.6, 1.6],
+        [4, 4, 12.1, -375.6, -7, -4.4],
+        [5, 0, -233.2, 0, 0.6, 0], [5, 1, 368.9, 45.4, 1.4, -0.5], [5, 2, 187.2, 220.2, 0, 2.2], [5, 3, -138.7, -122.9, 0.6, 0.4],
+        [5, 4, -142, 43, 2.2, 1.7], [5, 5, 20.9, 106.1, 0.9, 1.9],
+        [6, 0, 64.4, 0, -0.2, 0], [6, 1, 63.8, -18.4, -0.4, 0.3], [6, 2, 76.9, 16.8, 0.9, -1.6], [6, 3, -115.7, 48.8, 1.2, -0.4],
+        [6, 4, -40.9, -59.8, -0.9, 0.9], [6, 5, 14.9, 10.9, 0.3, 0.7], [6, 6, -60.7, 72.7, 0.9, 0.9],
+        [7, 0, 79.5, 0, 0, 0], [7, 1, -77, -48.9, -0.1, 0.6], [7, 2, -8.8, -14.4, -0.1, 0.5], [7, 3, 59.3, -1, 0.5, -0.8],
+        [7, 4, 15.8, 23.4, -0.1, 0], [7, 5, 2.5, -7.4, -0.8, -1], [7, 6, -11.1, -25.1, -0.8, 0.6], [7, 7, 14.2, -2.3, 0.8, -0.2],
+        [8, 0, 23.2, 0, -0.1, 0], [8, 1, 10.8, 7.1, 0.2, -0.2], [8, 2, -17.5, -12.6, 0, 0.5], [8, 3, 2, 11.4, 0.5, -0.4],
+        [8, 4, -21.7, -9.7, -0.1, 0.4], [8, 5, 16.9, 12.7, 0.3, -0.5], [8, 6, 15, 0.7, 0.2, -0.6], [8, 7, -16.8, -5.2, 0, 0.3],
+        [8, 8, 0.9, 3.9, 0.2, 0.2],
+        [9, 0, 4.6, 0, 0, 0], [9, 1, 7.8, -24.8, -0.1, -0.3], [9, 2, 3, 12.2, 0.1, 0.3], [9, 3, -0.2, 8.3, 0.3, -0.3],
+        [9, 4, -2.5, -3.3, -0.3, 0.3], [9, 5, -13.1, -5.2, 0, 0.2], [9, 6, 2.4, 7.2, 0.3, -0.1], [9, 7, 8.6, -0.6, -0.1, -0.2],
+        [9, 8, -8.7, 0.8, 0.1, 0.4], [9, 9, -12.9, 10, -0.1, 0.1],
+        [10, 0, -1.3, 0, 0.1, 0], [10, 1, -6.4, 3.3, 0, 0], [10, 2, 0.2, 0, 0.1, 0], [10, 3, 2, 2.4, 0.1, -0.2],
+        [10, 4, -1, 5.3, 0, 0.1], [10, 5, -0.6, -9.1, -0.3, -0.1], [10, 6, -0.9, 0.4, 0, 0.1], [10, 7, 1.5, -4.2, -0.1, 0],
+        [10, 8, 0.9, -3.8, -0.1, -0.1], [10, 9, -2.7, 0.9, 0, 0.2], [10, 10, -3.9, -9.1, 0, 0],
+        [11, 0, 2.9, 0, 0, 0], [11, 1, -1.5, 0, 0, 0], [11, 2, -2.5, 2.9, 0, 0.1], [11, 3, 2.4, -0.6, 0, 0],
+        [11, 4, -0.6, 0.2, 0, 0.1], [11, 5, -0.1, 0.5, -0.1, 0], [11, 6, -0.6, -0.3, 0, 0], [11, 7, -0.1, -1.2, 0, 0.1],
+        [11, 8, 1.1, -1.7, -0.1, 0], [11, 9, -1, -2.9, -0.1, 0], [11, 10, -0.2, -1.8, -0.1, 0], [11, 11, 2.6, -2.3, -0.1, 0],
+        [12, 0, -2, 0, 0, 0], [12, 1, -0.2, -1.3, 0, 0], [12, 2, 0.3, 0.7, 0, 0], [12, 3, 1.2, 1, 0, -0.1],
+        [12, 4, -1.3, -1.4, 0, 0.1], [12, 5, 0.6, 0, 0, 0], [12, 6, 0.6, 0.6, 0.1, 0], [12, 7, 0.5, -0.1, 0, 0],
+        [12, 8, -0.1, 0.8, 0, 0], [12, 9, -0.4, 0.1, 0, 0], [12, 10, -0.2, -1, -0.1, 0], [12, 11, -1.3, 0.1, 0, 0],
+        [12, 12, -0.7, 0.2, -0.1, -0.1],
+    ]);
+
+    /**
+     * Semi-major axis of the WGS 84 ellipsoid, in kilometres.
+     */
+    private static readonly A = 6378.137;
+
+    /**
+     * Flattening of the WGS 84 ellipsoid.
+     */
+    private static readonly F = 1 / 298.257223563;
+
+    /**
+     * Geomagnetic reference radius, in kilometres.
+     */
+    private static readonly REFERENCE_RADIUS = 6371.2;
+
+    /**
+     * Maximum degree of the spherical harmonic expansion.
+     */
+    public readonly degree: number;
+
+    /**
+     * @param epoch The reference epoch of the coefficients, as a decimal year.
+     * @param coefficients Schmidt semi-normalised Gauss coefficients, in nT, and their secular variation, in nT/year.
+     */
+    public constructor(public readonly epoch: number, public readonly coefficients: ReadonlyArray<MagneticModel.Coefficient>) {
+        this.degree = Math.max(...coefficients.map(([n]) => n));
+    }
+
+    /**
+     * Convert a date to a decimal year, e.g. 2025.5 for the 2nd of July 2025.
+     *
+     * @param date The date.
+     */
+    public static decimalYear(date: Date): number {
+        const year = date.getUTCFullYear();
+        const start = Date.UTC(year, 0, 1);
+        return year + (date.getTime() - start) / (Date.UTC(year + 1, 0, 1) - start);
+    }
+
+    /**
+     * Get the magnetic declination at a fix.
+     *
+     * @param fix The fix.
+     * @param [date=new Date()] The date. Dates far from {@link epoch} give increasingly inaccurate results.
+     * @param [altitude=0] Altitude above mean sea level, in feet.
+     * @returns The declination, in degrees. Positive is east.
+     */
+    public declination(fix: Fix, date: Date = new Date(), altitude: number = 0): number {
+        const {north, east} = this.field(fix, MagneticModel.decimalYear(date), altitude * Fix.FT / 1000);
+        return Fix.radToDeg(Math.atan2(east, north));
+    }
+
+    /**
+     * Convert a true bearing to a magnetic bearing.
+     *
+     * @param bearing The true bearing, in degrees.
+     * @param fix The fix at which the bearing is measured.
+     * @param [date=new Date()] The date.
+     * @returns The magnetic bearing, in degrees in the range [0, 360).
+     */
+    public toMagnetic(bearing: number, fix: Fix, date: Date = new Date()): number {
+        return MagneticModel.normalise(bearing - this.declination(fix, date));
+    }
+
+    /**
+     * Convert a magnetic bearing to a true bearing.
+     *
+     * @param bearing The magnetic bearing, in degrees.
+     * @param fix The fix at which the bearing is measured.
+     * @param [date=new Date()] The date.
+     * @returns The true bearing, in degrees in the range [0, 360).
+     */
+    public toTrue(bearing: number, fix: Fix, date: Date = new Date()): number {
+        return MagneticModel.normalise(bearing + this.declination(fix, date));
+    }
+
+    /**
+     * Normalise a bearing to the range [0, 360).
+     *
+     * @param bearing The bearing, in degrees.
+     */
+    private static normalise(bearing: number): number {
+        return (bearing % 360 + 360) % 360;
+    }
+
+    /**
+     * Compute the horizontal components of the field, in nT, in the geodetic frame.
+     *
+     * @param fix The position.
+     * @param year Decimal year.
+     * @param height Height above the ellipsoid, in kilometres.
+     */
+    private field(fix: Fix, year: number, height: number): {north: number, east: number} {
+        const φ = Fix.degToRad(fix.latitude);
+        const λ = Fix.degToRad(fix.longitude);
+
+        // geodetic to geocentric spherical coordinates
+        const e2 = MagneticModel.F * (2 - MagneticModel.F);
+        const rc = MagneticModel.A / Math.sqrt(1 - e2 * Math.sin(φ) ** 2);
+        const p = (rc + height) * Math.cos(φ);
+        const z = (rc * (1 - e2) + height) * Math.sin(φ);
+        const r = Math.hypot(p, z);
+        const φc = Math.asin(z / r);
+
+        const [P, dP] = MagneticModel.legendre(this.degree, Math.sin(φc), Math.cos(φc));
+        const dt = year - this.epoch;
+        let x = 0, y = 0, zc = 0;
+        for (const [n, m, g0, h0, gDot, hDot] of this.coefficients) {
+            const g = g0 + gDot * dt;
+            const h = h0 + hDot * dt;
+            const scale = (MagneticModel.REFERENCE_RADIUS / r) ** (n + 2);
+            const cos = Math.cos(m * λ);
+            const sin = Math.sin(m * λ);
+            x += scale * (g * cos + h * sin) * dP[n]![m]!;
+            y += scale * m * (g * sin - h * cos) * P[n]![m]!;
+            zc -= (n + 1) * scale * (g * cos + h * sin) * P[n]![m]!;
+        }
+        // at the poles the east component is undefined; the limit is used by keeping cos φ′ away from zero
+        y /= Math.max(Math.cos(φc), 1e-12);
+
+        const ψ = φc - φ;
+        return {north: x * Math.cos(ψ) - zc * Math.sin(ψ), east: y};
+    }
+
+    /**
+     * Compute the Schmidt semi-normalised associated Legendre functions and their derivatives with respect to
+     * colatitude.
+     *
+     * @param degree Maximum degree.
+     * @param sin Sine of the geocentric latitude (cosine of the colatitude).
+     * @param cos Cosine of the geocentric latitude (sine of the colatitude).
+     */
+    private static legendre(degree: number, sin: number, cos: number): [P: number[][], dP: number[][]] {
+        const P = Array.from({length: degree + 1}, () => new Array<number>(degree + 1).fill(0));
+        const dP = Array.from({length: degree + 1}, () => new Array<number>(degree + 1).fill(0));
+        P[0]![0] = 1;
+        for (let n = 1; n <= degree; ++n) {
+            for (let m = 0; m < n; ++m) {
+                const k = Math.sqrt(n * n - m * m);
+                const previous = n > 1 ? Math.sqrt((n - 1) ** 2 - m * m) : 0;
+                const [p1, d1] = [P[n - 1]![m]!, dP[n - 1]![m]!];
+                const [p2, d2] = n > 1 ? [P[n - 2]![m]!, dP[n - 2]![m]!] : [0, 0];
+                P[n]![m] = ((2 * n - 1) * sin * p1 - previous * p2) / k;
+                dP[n]![m] = ((2 * n - 1) * (sin * d1 - cos * p1) - previous * d2) / k;
+            }
+            const k = n === 1 ? 1 : Math.sqrt((2 * n - 1) / (2 * n));
+            const [p1, d1] = [P[n - 1]![n - 1]!, dP[n - 1]![n - 1]!];
+            P[n]![n] = k * cos * p1;
+            dP[n]![n] = k * (cos * d1 + sin * p1);
+        }
+        return [P, dP];
+    }
+}
+
+export namespace MagneticModel {
+    /**
+     * A Gauss coefficient of degree `n` and order `m`, with its secular variation.
+     */
+    export type Coefficient = [n: number, m: number, g: number, h: number, gDot: number, hDot: number];
+}
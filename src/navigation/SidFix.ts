@@ -40,9 +40,9 @@ export class SidFix extends NamedFix {
      * Create SID fix from a named fix.
      *
      * @param namedFix The named fix.
-     * @param pronunciation The pronunciation of the SID fix’s name.
+     * @param [pronunciation] The pronunciation of the SID fix’s name.
      */
-    public static fromNamedFix(namedFix: NamedFix, pronunciation: string): SidFix {
+    public static fromNamedFix(namedFix: NamedFix, pronunciation?: string): SidFix {
         return new SidFix(namedFix.latitude, namedFix.longitude, namedFix.name, pronunciation);
     }
 }
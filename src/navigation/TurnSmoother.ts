@@ -0,0 +1,166 @@
+import {ApproachFix} from "./ApproachFix.js";
+import {Fix} from "./Fix.js";
+
+/**
+ * Replaces the corners of a route with radius-to-fix arcs that an aircraft can fly at a given speed and bank angle.
+ *
+ * Each turn is replaced by an arc that is tangent to the inbound and outbound legs. If the original fix is an
+ * {@link ApproachFix}, its altitude and speed constraints are kept on the middle of the arc, which is the point of the
+ * arc closest to the original fix.
+ */
+export class TurnSmoother {
+    /**
+     * Standard gravity, in m/s².
+     */
+    private static readonly G = 9.80665;
+
+    /**
+     * Radius of the turns, in nautical miles.
+     */
+    public readonly turnRadius: number;
+
+    readonly #options: Required<TurnSmoother.Options>;
+
+    /**
+     * @param [options] Smoothing options.
+     */
+    public constructor(options: TurnSmoother.Options = {}) {
+        this.#options = {speed: 250, bankAngle: 25, minimumTurn: 10, arcStep: 10, ...options};
+        this.turnRadius = TurnSmoother.turnRadius(this.#options.speed, this.#options.bankAngle);
+    }
+
+    /**
+     * Get the radius of a coordinated turn.
+     *
+     * @param speed True airspeed, in knots.
+     * @param bankAngle Bank angle, in degrees.
+     * @returns The turn radius, in nautical miles.
+     */
+    public static turnRadius(speed: number, bankAngle: number): number {
+        const v = speed * Fix.NMI / 3600;
+        return v * v / (TurnSmoother.G * Math.tan(Fix.degToRad(bankAngle))) / Fix.NMI;
+    }
+
+    /**
+     * Smooth the turns of a route, such as {@link Arrival#route} or {@link Departure#route}.
+     *
+     * Turns that do not fit between their neighbouring fixes, because the legs are too short for the turn radius, are
+     * kept as corners and reported.
+     *
+     * @param route The fixes of the route.
+     */
+    public smooth(route: ReadonlyArray<Fix>): TurnSmoother.Result {
+        const result: Fix[] = route.slice(0, 1);
+        const conflicts: TurnSmoother.Conflict[] = [];
+        // distance from the previous fix used by the turn at that fix
+        let used = 0;
+
+        for (let i = 1; i < route.length - 1; ++i) {
+            const [previous, fix, next] = [route[i - 1]!, route[i]!, route[i + 1]!];
+            const inbound = (fix.initialBearing(previous) + 180) % 360;
+            const outbound = fix.initialBearing(next);
+            const turn = ((outbound - inbound) % 360 + 540) % 360 - 180;
+            if (Math.abs(turn) < this.#options.minimumTurn) {
+                result.push(fix);
+                used = 0;
+                continue;
+            }
+
+            const lead = this.turnRadius * Math.tan(Fix.degToRad(Math.abs(turn)) / 2);
+            const available = Math.min(previous.distance(fix) - used, fix.distance(next));
+            if (lead > available) {
+                conflicts.push(new TurnSmoother.Conflict(fix, i, turn, lead, Math.max(0, available)));
+                result.push(fix);
+                used = 0;
+                continue;
+            }
+
+            result.push(...this.arc(fix, inbound, turn, lead));
+            used = lead;
+        }
+
+        if (route.length > 1)
+            result.push(route[route.length - 1]!);
+        return {route: result, conflicts};
+    }
+
+    private arc(fix: Fix, inbound: number, turn: number, lead: number): Fix[] {
+        const side = Math.sign(turn);
+        const start = fix.destination(inbound + 180, lead);
+        const center = start.destination(inbound + 90 * side, this.turnRadius);
+        // an even number of segments, so that the middle of the arc is one of the fixes
+        const segments = 2 * Math.max(1, Math.ceil(Math.abs(turn) / this.#options.arcStep / 2));
+        return Array.from({length: segments + 1}, (_, k) => {
+            const point = center.destination(inbound - 90 * side + turn * k / segments, this.turnRadius);
+            return k === segments / 2 && fix instanceof ApproachFix
+                ? ApproachFix.from(point, fix.altitude, fix.speed)
+                : point;
+        });
+    }
+}
+
+export namespace TurnSmoother {
+    /**
+     * Options for smoothing turns.
+     */
+    export interface Options {
+        /**
+         * True airspeed, in knots.
+         * @default 250
+         */
+        speed?: number;
+
+        /**
+         * Bank angle, in degrees.
+         * @default 25
+         */
+        bankAngle?: number;
+
+        /**
+         * Turns smaller than this angle, in degrees, are kept as corners.
+         * @default 10
+         */
+        minimumTurn?: number;
+
+        /**
+         * Maximum angle, in degrees, between consecutive fixes of an arc.
+         * @default 10
+         */
+        arcStep?: number;
+    }
+
+    /**
+     * A smoothed route.
+     */
+    export interface Result {
+        /**
+         * The fixes of the smoothed route.
+         */
+        route: Fix[];
+
+        /**
+         * Turns that could not be smoothed.
+         */
+        conflicts: Conflict[];
+    }
+
+    /**
+     * A turn that does not fit between its neighbouring fixes.
+     */
+    export class Conflict {
+        /**
+         * @param fix The fix at which the turn is made.
+         * @param index Index of the fix in the original route.
+         * @param turn The turn angle, in degrees. Positive for right turns and negative for left turns.
+         * @param required Distance, in nautical miles, before and after the fix needed to fly the turn.
+         * @param available Distance, in nautical miles, available before or after the fix, whichever is shorter.
+         */
+        public constructor(
+            public readonly fix: Fix,
+            public readonly index: number,
+            public readonly turn: number,
+            public readonly required: number,
+            public readonly available: number,
+        ) {}
+    }
+}
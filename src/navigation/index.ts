@@ -2,8 +2,13 @@ export {Arrival} from "./Arrival.js";
 export {ApproachFix} from "./ApproachFix.js";
 export {Beacon} from "./Beacon.js";
 export {CardinalDirection} from "./CardinalDirection.js";
+export {DmeArc} from "./DmeArc.js";
 export {Departure} from "./Departure.js";
 export {Fix} from "./Fix.js";
+export {Hold} from "./Hold.js";
+export {InstrumentApproach} from "./InstrumentApproach.js";
+export {MagneticModel} from "./MagneticModel.js";
 export {NamedFix} from "./NamedFix.js";
 export {Route} from "./Route.js";
 export {SidFix} from "./SidFix.js";
+export {TurnSmoother} from "./TurnSmoother.js";
@@ -13,7 +13,7 @@ function preprocessIni(input: string): string {
 }
 
 export type IniBaseValue = string | number | boolean;
-export type IniValue = IniBaseValue | IniBaseValue[] | Record<string, IniBaseValue>;
+export type IniValue = IniBaseValue | IniBaseValue[] | Record<string, IniBaseValue | IniBaseValue[]>;
 
 /**
  * INI file structure.
@@ -25,3 +25,32 @@ export interface Ini {
 export function parseIni(file: string): Ini {
     return ini.parse(preprocessIni(file));
 }
+
+function stringifyEntry(key: string, value: IniBaseValue | IniBaseValue[]): string {
+    if (Array.isArray(value))
+        return `${key} =\n` + value.map(line => `    ${line}`).join("\n");
+    return `${key} = ${value}`;
+}
+
+/**
+ * Convert an INI file structure to text.
+ *
+ * Arrays are written as multiline values, with each element on its own indented line, so that the output can be read
+ * back with {@link parseIni}.
+ *
+ * @param file INI file structure.
+ */
+export function stringifyIni(file: Ini): string {
+    const global: string[] = [];
+    const sections: string[] = [];
+    for (const [key, value] of Object.entries(file)) {
+        if (typeof value === "object" && !Array.isArray(value))
+            sections.push(
+                [`[${key}]`, ...Object.entries(value).map(([k, v]) => stringifyEntry(k, v))].join("\n")
+            );
+        else global.push(stringifyEntry(key, value));
+    }
+    if (global.length > 0)
+        sections.unshift(global.join("\n"));
+    return sections.join("\n\n") + "\n";
+}
@@ -0,0 +1,41 @@
+import {Fix} from "../navigation/Fix.js";
+import {Projection} from "./Projection.js";
+
+/**
+ * Azimuthal equidistant projection: distances and bearings from the centre are true. Accurate for shapes spanning a
+ * few hundred nautical miles around the centre.
+ */
+export class AzimuthalEquidistant extends Projection {
+    /**
+     * @param center The centre of the projection.
+     */
+    public constructor(center: Fix) {
+        super(center);
+    }
+
+    /**
+     * Create a projection centred on the centroid of some fixes.
+     *
+     * @param fixes The fixes.
+     */
+    public static around(fixes: ReadonlyArray<Fix>): AzimuthalEquidistant {
+        const sum = fixes.reduce<[number, number, number]>((sum, fix) => {
+            const [x, y, z] = fix.toCartesian();
+            return [sum[0] + x, sum[1] + y, sum[2] + z];
+        }, [0, 0, 0]);
+        const length = Math.hypot(...sum);
+        return new AzimuthalEquidistant(length === 0
+            ? fixes[0] ?? new Fix(0, 0)
+            : Fix.fromCartesian([sum[0] / length, sum[1] / length, sum[2] / length]));
+    }
+
+    public override project(fix: Fix): Projection.Point {
+        const distance = this.center.distance(fix);
+        const θ = Fix.degToRad(this.center.initialBearing(fix));
+        return [distance * Math.sin(θ), distance * Math.cos(θ)];
+    }
+
+    public override unproject([x, y]: Projection.Point): Fix {
+        return this.center.destination(Fix.radToDeg(Math.atan2(x, y)), Math.hypot(x, y));
+    }
+}
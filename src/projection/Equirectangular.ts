@@ -0,0 +1,33 @@
+import {Fix} from "../navigation/Fix.js";
+import {Projection} from "./Projection.js";
+
+/**
+ * Equirectangular projection: meridians and parallels are equally spaced straight lines. Distances are true along
+ * meridians and along the standard parallel, and stretched east–west away from it.
+ */
+export class Equirectangular extends Projection {
+    /**
+     * @param center The centre of the projection.
+     * @param [standardParallel] Latitude, in degrees, at which east–west distances are true. Defaults to the latitude
+     *     of the centre.
+     */
+    public constructor(center: Fix, public readonly standardParallel: number = center.latitude) {
+        super(center);
+    }
+
+    public override project(fix: Fix): Projection.Point {
+        const cos = Math.cos(Fix.degToRad(this.standardParallel));
+        return [
+            Fix.degToRad(Projection.longitudeDifference(fix.longitude, this.center.longitude)) * cos * Projection.RADIUS,
+            Fix.degToRad(fix.latitude - this.center.latitude) * Projection.RADIUS,
+        ];
+    }
+
+    public override unproject([x, y]: Projection.Point): Fix {
+        const cos = Math.cos(Fix.degToRad(this.standardParallel));
+        return new Fix(
+            this.center.latitude + Fix.radToDeg(y / Projection.RADIUS),
+            Projection.longitudeDifference(this.center.longitude + Fix.radToDeg(x / cos / Projection.RADIUS), 0),
+        );
+    }
+}
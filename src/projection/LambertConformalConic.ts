@@ -0,0 +1,91 @@
+import {Fix} from "../navigation/Fix.js";
+import {Projection} from "./Projection.js";
+
+/**
+ * Lambert conformal conic projection, as used on aeronautical charts: angles are preserved and scale is true along
+ * the two standard parallels.
+ *
+ * If the standard parallels are symmetric about the equator, the projection is the Mercator projection.
+ */
+export class LambertConformalConic extends Projection {
+    /**
+     * The cone constant.
+     */
+    readonly #n: number;
+
+    /**
+     * Scaled radius of the parallel at the equator, in nautical miles.
+     */
+    readonly #f: number;
+
+    /**
+     * Distance from the apex of the cone to the centre of the projection, in nautical miles.
+     */
+    readonly #ρ0: number;
+
+    /**
+     * @param center The centre of the projection.
+     * @param [standardParallels] Latitudes, in degrees, at which scale is true. Defaults to one degree either side of
+     *     the centre.
+     */
+    public constructor(
+        center: Fix,
+        public readonly standardParallels: readonly [number, number] = [center.latitude - 1, center.latitude + 1],
+    ) {
+        super(center);
+        const [φ1, φ2] = standardParallels.map(φ => Fix.degToRad(φ)) as [number, number];
+        this.#n = Math.abs(φ1 - φ2) < 1e-10
+            ? Math.sin(φ1)
+            : Math.log(Math.cos(φ1) / Math.cos(φ2)) / Math.log(LambertConformalConic.t(φ2) / LambertConformalConic.t(φ1));
+        this.#f = this.isMercator()
+            ? Math.cos(φ1) * Projection.RADIUS
+            : Math.cos(φ1) * LambertConformalConic.t(φ1) ** this.#n / this.#n * Projection.RADIUS;
+        this.#ρ0 = this.radius(Fix.degToRad(center.latitude));
+    }
+
+    public override project(fix: Fix): Projection.Point {
+        const Δλ = Fix.degToRad(Projection.longitudeDifference(fix.longitude, this.center.longitude));
+        const φ = Fix.degToRad(fix.latitude);
+        if (this.isMercator())
+            return [this.#f * Δλ, this.#f * (Math.log(LambertConformalConic.t(φ)) - this.#ρ0)];
+        const ρ = this.radius(φ);
+        const θ = this.#n * Δλ;
+        return [ρ * Math.sin(θ), this.#ρ0 - ρ * Math.cos(θ)];
+    }
+
+    public override unproject([x, y]: Projection.Point): Fix {
+        if (this.isMercator())
+            return this.fix(2 * Math.atan(Math.exp(y / this.#f + this.#ρ0)) - Math.PI / 2, x / this.#f);
+        const sign = Math.sign(this.#n);
+        const ρ = sign * Math.hypot(x, this.#ρ0 - y);
+        const θ = Math.atan2(sign * x, sign * (this.#ρ0 - y));
+        const φ = ρ === 0
+            ? sign * Math.PI / 2
+            : 2 * Math.atan((this.#f / ρ) ** (1 / this.#n)) - Math.PI / 2;
+        return this.fix(φ, θ / this.#n);
+    }
+
+    /**
+     * Get the fix at a latitude and a longitude difference from the centre, both in radians.
+     */
+    private fix(φ: number, Δλ: number): Fix {
+        return new Fix(Fix.radToDeg(φ), Projection.longitudeDifference(this.center.longitude + Fix.radToDeg(Δλ), 0));
+    }
+
+    private isMercator(): boolean {
+        return Math.abs(this.#n) < 1e-10;
+    }
+
+    /**
+     * Distance from the apex of the cone to a parallel, or the Mercator ordinate of the parallel.
+     */
+    private radius(φ: number): number {
+        return this.isMercator()
+            ? Math.log(LambertConformalConic.t(φ))
+            : this.#f / LambertConformalConic.t(φ) ** this.#n;
+    }
+
+    private static t(φ: number): number {
+        return Math.tan(Math.PI / 4 + φ / 2);
+    }
+}
@@ -0,0 +1,121 @@
+import {Fix} from "../navigation/Fix.js";
+
+/**
+ * A map projection that converts between fixes and planar coordinates, in nautical miles east (x) and north (y) of
+ * the {@link center} of the projection.
+ */
+export abstract class Projection {
+    /**
+     * Mean radius of the Earth, in nautical miles.
+     */
+    protected static readonly RADIUS = Fix.R / Fix.NMI;
+
+    /**
+     * @param center The centre of the projection, which is projected to the origin.
+     */
+    protected constructor(public readonly center: Fix) {}
+
+    /**
+     * Get the planar coordinates of a fix.
+     *
+     * @param fix The fix.
+     */
+    public abstract project(fix: Fix): Projection.Point;
+
+    /**
+     * Get the fix at planar coordinates.
+     *
+     * @param point The planar coordinates.
+     */
+    public abstract unproject(point: Projection.Point): Fix;
+
+    /**
+     * Get the difference between two longitudes, in the range [-180, 180).
+     *
+     * @param longitude The longitude, in degrees.
+     * @param reference The reference longitude, in degrees.
+     */
+    protected static longitudeDifference(longitude: number, reference: number): number {
+        return ((longitude - reference) % 360 + 540) % 360 - 180;
+    }
+}
+
+export namespace Projection {
+    /**
+     * Planar coordinates, in nautical miles east and north of the centre of a projection.
+     */
+    export type Point = [x: number, y: number];
+
+    /**
+     * A rectangular screen, such as the radar scope, showing a projection centred on the screen at a zoom level.
+     *
+     * At the default {@link Airspace#zoom} of 7, the distance from the centre of the scope to its nearest edge is
+     * 30 nautical miles, the default {@link Airspace#boundary}. The distance shown is inversely proportional to the
+     * zoom.
+     */
+    export class Viewport {
+        /**
+         * Distance, in nautical miles, from the centre of the screen to its nearest edge at zoom level 1.
+         */
+        public static readonly RANGE = 210;
+
+        /**
+         * Size of a nautical mile on the screen, in pixels.
+         */
+        public readonly scale: number;
+
+        /**
+         * @param projection The projection. Its centre is shown at the centre of the screen.
+         * @param width Width of the screen, in pixels.
+         * @param height Height of the screen, in pixels.
+         * @param [zoom=7] Zoom level (higher is more zoomed in).
+         */
+        public constructor(
+            public readonly projection: Projection,
+            public readonly width: number,
+            public readonly height: number,
+            public readonly zoom: number = 7,
+        ) {
+            this.scale = Math.min(width, height) / 2 / Viewport.range(zoom);
+        }
+
+        /**
+         * Get the distance from the centre of the screen to its nearest edge at a zoom level.
+         *
+         * @param zoom Zoom level.
+         * @returns The distance, in nautical miles.
+         */
+        public static range(zoom: number): number {
+            return Viewport.RANGE / zoom;
+        }
+
+        /**
+         * Get the screen coordinates of a fix, in pixels right and down from the top left corner.
+         *
+         * @param fix The fix.
+         */
+        public toScreen(fix: Fix): Point {
+            const [x, y] = this.projection.project(fix);
+            return [this.width / 2 + x * this.scale, this.height / 2 - y * this.scale];
+        }
+
+        /**
+         * Get the fix at screen coordinates.
+         *
+         * @param point Pixels right and down from the top left corner.
+         */
+        public fromScreen([x, y]: Point): Fix {
+            return this.projection.unproject([(x - this.width / 2) / this.scale, (this.height / 2 - y) / this.scale]);
+        }
+
+        /**
+         * Whether a fix is shown on the screen.
+         *
+         * @param fix The fix.
+         */
+        public contains(fix: Fix): boolean {
+            const [x, y] = this.toScreen(fix);
+            return x >= 0 && x <= this.width && y >= 0 && y <= this.height;
+        }
+    }
+}
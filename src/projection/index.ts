@@ -0,0 +1,4 @@
+export {AzimuthalEquidistant} from "./AzimuthalEquidistant.js";
+export {Equirectangular} from "./Equirectangular.js";
+export {LambertConformalConic} from "./LambertConformalConic.js";
+export {Projection} from "./Projection.js";
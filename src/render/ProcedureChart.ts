@@ -0,0 +1,419 @@
+import {Airspace} from "../airspace/Airspace.js";
+import {ApproachFix} from "../navigation/ApproachFix.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {Beacon} from "../navigation/Beacon.js";
+import {Departure} from "../navigation/Departure.js";
+import {Fix} from "../navigation/Fix.js";
+import {NamedFix} from "../navigation/NamedFix.js";
+import {AzimuthalEquidistant} from "../projection/AzimuthalEquidistant.js";
+import {Projection} from "../projection/Projection.js";
+import {Runway} from "../Runway.js";
+import {VerticalProfile} from "../validation/VerticalProfile.js";
+import {document, element, pathData, round, text} from "./svg.js";
+
+/**
+ * Renders a chart of a single {@link Arrival} or {@link Departure} as an SVG image, e.g. to document the procedures of
+ * an airspace.
+ *
+ * The chart has a header with the name of the procedure, the runways it serves and how it ends, and a plan view of
+ * the route fitted to the image. Each leg is labelled with its bearing and distance, and each fix with its name and
+ * the altitude and speed constraints of an {@link ApproachFix}.
+ */
+export class ProcedureChart {
+    readonly #options: Required<Omit<ProcedureChart.Options, "airspace">> & Pick<ProcedureChart.Options, "airspace">;
+
+    /**
+     * Distance, in nautical miles, within which two fixes are considered to be at the same position, e.g. for a fix of
+     * the {@link ProcedureChart.Options#airspace airspace} to give its name to a route fix.
+     */
+    private static readonly NAME_TOLERANCE = 0.01;
+
+    /**
+     * @param [options] Rendering options.
+     */
+    public constructor(options: ProcedureChart.Options = {}) {
+        this.#options = {
+            width: options.width ?? 600,
+            height: options.height ?? 600,
+            margin: options.margin ?? 60,
+            fontSize: options.fontSize ?? 11,
+            airspace: options.airspace,
+        };
+    }
+
+    /**
+     * Get the legs of a procedure. An arrival starts at its beacon, and a departure at the end of its runway.
+     *
+     * Legs to the ILS intercept point of an arrival are not included.
+     *
+     * @param procedure The arrival or departure.
+     */
+    public legs(procedure: Arrival | Departure): ProcedureChart.Leg[] {
+        const fixes = this.fixes(procedure);
+        return fixes.slice(1).map((to, i) => {
+            const from = fixes[i]!;
+            return {from, to, bearing: this.bearing(from.initialBearing(to)), distance: from.distance(to)};
+        });
+    }
+
+    /**
+     * Get the SVG document of a procedure.
+     *
+     * @param procedure The arrival or departure to render.
+     */
+    public render(procedure: Arrival | Departure): string {
+        const {width, height, margin, fontSize} = this.#options;
+        const fixes = this.fixes(procedure);
+        const runways = procedure instanceof Arrival ? procedure.runways : [procedure.runway];
+        const final = this.final(procedure);
+        const all = [...fixes, ...runways.flatMap(r => [r.position, r.reverse().position]), ...final ?? []];
+
+        const header = this.header(procedure);
+        const top = margin + header.length * fontSize * 1.5;
+        const toScreen = ProcedureChart.fit(AzimuthalEquidistant.around(all), all, [margin, top, width - margin, height - margin]);
+
+        return document(width, height, [
+            element("rect", {width: "100%", height: "100%", fill: "#FFFFFF"}),
+            element("g", {"font-family": "sans-serif", "font-size": fontSize, fill: "#000000"}, header.map((line, i) =>
+                text([margin / 2, margin / 2 + fontSize * (1.5 * i + 1)], line, i === 0 ? {"font-size": fontSize * 1.5, "font-weight": "bold"} : {}))),
+            element("g", {class: "runways", "font-family": "sans-serif", "font-size": fontSize}, runways.flatMap(r => this.runway(toScreen, r))),
+            element("g", {class: "termination", "font-family": "sans-serif", "font-size": fontSize}, this.termination(toScreen, procedure, fixes, final)),
+            element("g", {class: "legs", "font-family": "sans-serif", "font-size": fontSize}, this.legs(procedure).flatMap(leg => this.leg(toScreen, leg))),
+            element("g", {class: "fixes", "font-family": "sans-serif", "font-size": fontSize}, fixes.map(fix => this.fix(toScreen, fix))),
+        ]);
+    }
+
+    /**
+     * Get the fixes of a procedure, from its beacon or the end of its runway. A fix at the same position as the
+     * previous fix, such as a route that starts at the beacon, is skipped.
+     */
+    private fixes(procedure: Arrival | Departure): Fix[] {
+        const fixes = procedure instanceof Arrival
+            ? [procedure.beacon, ...procedure.route]
+            : [procedure.runway.reverse().position, ...procedure.route];
+        return fixes.filter((fix, i) => i === 0 || fixes[i - 1]!.distance(fix) >= ProcedureChart.NAME_TOLERANCE);
+    }
+
+    /**
+     * Get the ILS intercept point and threshold of an arrival that ends with an ILS intercept.
+     */
+    private final(procedure: Arrival | Departure): [intercept: Fix, threshold: Fix] | undefined {
+        const runway = procedure instanceof Arrival ? procedure.runways[0] : undefined;
+        if (!(procedure instanceof Arrival) || !(procedure.termination instanceof Arrival.IlsIntercept) || runway === undefined)
+            return undefined;
+        return [VerticalProfile.interceptPoint(runway, procedure.termination.distance), runway.thr()];
+    }
+
+    /**
+     * Get the lines of the header: the name, the runways, and how the procedure ends.
+     */
+    private header(procedure: Arrival | Departure): string[] {
+        const distance = this.legs(procedure).reduce((sum, leg) => sum + leg.distance, 0);
+        const bearings = this.#options.airspace === undefined ? "true" : "magnetic";
+        if (procedure instanceof Departure) {
+            const climb = procedure.initialClimb
+                ?? (this.#options.airspace?.hasPrimaryAirport() ? this.#options.airspace.getPrimaryAirport().initialClimb : undefined);
+            return [
+                `${procedure.name} — ${procedure.pronunciation}`,
+                `Departure · Runway ${procedure.runway.name}` + (climb === undefined ? "" : ` · Initial climb ${climb} ft`),
+                `${ProcedureChart.distance(distance)} · Bearings ${bearings}`,
+            ];
+        }
+        return [
+            `${procedure.name} — ${procedure.pronunciation}`,
+            `Arrival · Runway${procedure.runways.length === 1 ? "" : "s"} ${procedure.runways.map(r => r.name).join(", ")}`,
+            `${this.description(procedure)} · ${ProcedureChart.distance(distance)} · Bearings ${bearings}`,
+        ];
+    }
+
+    /**
+     * Describe how an arrival ends.
+     */
+    private description(arrival: Arrival): string {
+        const termination = arrival.termination;
+        if (termination instanceof Arrival.IlsIntercept)
+            return [
+                `ILS intercept at ${termination.distance} nm`,
+                ...termination.altitude === undefined ? [] : [`at or below ${termination.altitude} ft`],
+                ...termination.speed === undefined ? [] : [`at or below ${termination.speed} kt`],
+            ].join(", ");
+        if (termination instanceof Arrival.Hold) {
+            const last = arrival.route[arrival.route.length - 1] ?? arrival.beacon;
+            const hold = this.beacon(last)?.holdingPattern;
+            return `Hold at ${this.name(last)}` + (hold === undefined ? ""
+                : ` (inbound ${ProcedureChart.bearing(this.bearing(hold.inboundCourse))}, ${hold.turnDirection === Beacon.TurnDirection.LEFT ? "left" : "right"} turns)`);
+        }
+        if (termination instanceof Arrival.End && termination.heading !== undefined)
+            return `Heading ${ProcedureChart.bearing(this.bearing(termination.heading))}`;
+        return "Radar vectors";
+    }
+
+    /**
+     * Get the name of a fix: its own name, the name of a fix of the airspace at its position, or its coordinates.
+     */
+    private name(fix: Fix): string {
+        if (fix instanceof NamedFix)
+            return fix.name;
+        const named = this.#options.airspace?.getFixes().find(f => !f.name.startsWith("@") && f.distance(fix) < ProcedureChart.NAME_TOLERANCE);
+        return named?.name ?? fix.toDms(0).join(" ");
+    }
+
+    /**
+     * Get the beacon at the position of a fix, if any.
+     */
+    private beacon(fix: Fix): Beacon | undefined {
+        if (fix instanceof Beacon)
+            return fix;
+        return this.#options.airspace?.beacons.find(b => b.distance(fix) < ProcedureChart.NAME_TOLERANCE);
+    }
+
+    /**
+     * Convert a true bearing to the bearing shown on the chart: magnetic if the airspace is known, otherwise true.
+     */
+    private bearing(bearing: number): number {
+        return this.#options.airspace?.toMagnetic(bearing) ?? ((bearing % 360 + 360) % 360);
+    }
+
+    private runway(toScreen: ProcedureChart.ToScreen, runway: Runway): string[] {
+        const ends = [runway, runway.reverse()];
+        return [
+            element("path", {d: pathData(ends.map(r => toScreen(r.position))), stroke: "#000000", "stroke-width": 4}),
+            ...ends.map(r => {
+                const [x, y] = toScreen(r.position);
+                const θ = Fix.degToRad(r.bearing + 180);
+                const offset = this.#options.fontSize;
+                return text([x + offset * Math.sin(θ), y - offset * Math.cos(θ)], r.name,
+                    {"text-anchor": "middle", "dominant-baseline": "middle", "font-weight": "bold"});
+            }),
+        ];
+    }
+
+    /**
+     * Draw a leg with an arrow at its midpoint, labelled with its bearing and distance along the leg.
+     */
+    private leg(toScreen: ProcedureChart.ToScreen, leg: ProcedureChart.Leg): string[] {
+        const [x1, y1] = toScreen(leg.from);
+        const [x2, y2] = toScreen(leg.to);
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const [mx, my] = [(x1 + x2) / 2, (y1 + y2) / 2];
+        const arrow: Projection.Point[] = [[-6, -4], [0, 0], [-6, 4]].map(([dx, dy]) => [
+            mx + dx! * Math.cos(angle) - dy! * Math.sin(angle),
+            my + dx! * Math.sin(angle) + dy! * Math.cos(angle),
+        ]);
+        // keep the label upright
+        const rotation = Fix.radToDeg(angle) + (Math.abs(angle) > Math.PI / 2 ? 180 : 0);
+        return [
+            element("path", {d: pathData([[x1, y1], [x2, y2]]), stroke: "#000000", "stroke-width": 1.5}),
+            element("path", {d: pathData(arrow), fill: "none", stroke: "#000000", "stroke-width": 1.5}),
+            text([mx, my - 6], `${ProcedureChart.bearing(leg.bearing)} ${ProcedureChart.distance(leg.distance)}`,
+                {"text-anchor": "middle", transform: `rotate(${round(rotation)} ${round(mx)} ${round(my)})`}),
+        ];
+    }
+
+    /**
+     * Draw a fix with its name and constraints. Beacons are drawn as triangles, other fixes as circles.
+     */
+    private fix(toScreen: ProcedureChart.ToScreen, fix: Fix): string {
+        const [x, y] = toScreen(fix).map(round) as Projection.Point;
+        const lines = [
+            this.name(fix),
+            ...fix instanceof ApproachFix && fix.altitude !== undefined ? [`≤ ${fix.altitude} ft`] : [],
+            ...fix instanceof ApproachFix && fix.speed !== undefined ? [`≤ ${fix.speed} kt`] : [],
+        ];
+        return element("g", {}, [
+            fix instanceof Beacon
+                ? element("path", {d: `M${x} ${y - 6} L${x + 5.5} ${y + 4} L${x - 5.5} ${y + 4} Z`, fill: "#FFFFFF", stroke: "#000000", "stroke-width": 1.5})
+                : element("circle", {cx: x, cy: y, r: 3.5, fill: "#FFFFFF", stroke: "#000000", "stroke-width": 1.5}),
+            ...lines.map((line, i) => text([x + 8, y - 8 + i * this.#options.fontSize * 1.2], line, i === 0 ? {"font-weight": "bold"} : {})),
+        ]);
+    }
+
+    /**
+     * Draw how an arrival ends: the path to the ILS intercept point and down the localiser, the heading to fly, or the
+     * holding pattern.
+     */
+    private termination(toScreen: ProcedureChart.ToScreen, procedure: Arrival | Departure, fixes: Fix[], final: [Fix, Fix] | undefined): string[] {
+        const last = fixes[fixes.length - 1]!;
+        if (!(procedure instanceof Arrival))
+            return [];
+        if (final !== undefined) {
+            const [intercept, threshold] = final;
+            const runway = procedure.runways[0]!;
+            const [x, y] = toScreen(intercept);
+            return [
+                element("path", {d: pathData([toScreen(last), [x, y]]), stroke: "#000000", "stroke-dasharray": "6 4"}),
+                element("path", {d: pathData([[x, y], toScreen(threshold)]), stroke: "#000000", "stroke-width": 1.5}),
+                element("circle", {cx: x, cy: y, r: 2.5, fill: "#000000"}),
+                text([x + 8, y + this.#options.fontSize + 4], `ILS ${runway.name} ${ProcedureChart.bearing(this.bearing(runway.localizer))}`),
+            ];
+        }
+        const [x, y] = toScreen(last).map(round) as Projection.Point;
+        const termination = procedure.termination;
+        if (termination instanceof Arrival.End && termination.heading !== undefined) {
+            // the heading is a true bearing, which is not straight up the screen away from the centre of the projection
+            const θ = Fix.degToRad(toScreen.rotation(last, termination.heading));
+            const [x2, y2] = [x + 50 * Math.sin(θ), y - 50 * Math.cos(θ)];
+            return [
+                element("path", {d: pathData([[x, y], [x2, y2]]), stroke: "#000000", "stroke-dasharray": "6 4"}),
+                element("path", {d: pathData([[-6, 6], [0, 0], [6, 6]].map(([dx, dy]) =>
+                    [x2 + dx! * Math.cos(θ) - dy! * Math.sin(θ), y2 + dx! * Math.sin(θ) + dy! * Math.cos(θ)])), fill: "none", stroke: "#000000"}),
+                text([x2 + 8 * Math.sin(θ), y2 - 8 * Math.cos(θ)], ProcedureChart.bearing(this.bearing(termination.heading)),
+                    {"text-anchor": "middle", "dominant-baseline": "middle"}),
+            ];
+        }
+        if (termination instanceof Arrival.Hold) {
+            const hold = this.beacon(last)?.holdingPattern;
+            const inbound = toScreen.rotation(last, hold?.inboundCourse ?? (fixes.length > 1 ? fixes[fixes.length - 2]!.finalBearing(last) : 0));
+            const side = hold?.turnDirection === Beacon.TurnDirection.LEFT ? -1 : 1;
+            return [element("path", {
+                d: ProcedureChart.racetrack([x, y], inbound, side),
+                fill: "none",
+                stroke: "#000000",
+                "stroke-width": 1.5,
+            })];
+        }
+        return [];
+    }
+
+    /**
+     * Get the path data of a holding pattern drawn at a fix.
+     *
+     * @param fix The screen position of the holding fix.
+     * @param inbound The inbound course on the screen, in degrees clockwise from up.
+     * @param side 1 for right turns, -1 for left turns.
+     */
+    private static racetrack([x, y]: Projection.Point, inbound: number, side: number): string {
+        const length = 36;
+        const radius = 9;
+        const θ = Fix.degToRad(inbound);
+        const along: Projection.Point = [Math.sin(θ), -Math.cos(θ)];
+        const across: Projection.Point = [-along[1] * side, along[0] * side];
+        const point = (a: number, c: number): string =>
+            `${round(x + along[0] * a + across[0] * c)} ${round(y + along[1] * a + across[1] * c)}`;
+        const sweep = side === 1 ? 1 : 0;
+        return `M${point(0, 0)} A${radius} ${radius} 0 0 ${sweep} ${point(0, 2 * radius)} L${point(-length, 2 * radius)} `
+            + `A${radius} ${radius} 0 0 ${sweep} ${point(-length, 0)} Z`;
+    }
+
+    /**
+     * Get a function that converts fixes to screen coordinates, fitting the fixes to a box. North is up at the centre
+     * of the projection.
+     *
+     * @param projection The projection.
+     * @param fixes The fixes to fit.
+     * @param box The left, top, right and bottom edges of the box, in pixels.
+     */
+    private static fit(projection: Projection, fixes: ReadonlyArray<Fix>, [left, top, right, bottom]: [number, number, number, number]): ProcedureChart.ToScreen {
+        const points = fixes.map(f => projection.project(f));
+        const xs = points.map(([x]) => x);
+        const ys = points.map(([, y]) => y);
+        const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+        const scale = Math.min((right - left) / Math.max(maxX - minX, 1e-6), (bottom - top) / Math.max(maxY - minY, 1e-6));
+        const [cx, cy] = [(left + right) / 2, (top + bottom) / 2];
+        const [mx, my] = [(minX + maxX) / 2, (minY + maxY) / 2];
+        const toScreen = (fix: Fix): Projection.Point => {
+            const [x, y] = projection.project(fix);
+            return [cx + (x - mx) * scale, cy - (y - my) * scale];
+        };
+        return Object.assign(toScreen, {
+            rotation(fix: Fix, bearing: number): number {
+                const [x1, y1] = toScreen(fix);
+                const [x2, y2] = toScreen(fix.destination(bearing, 1));
+                return Fix.radToDeg(Math.atan2(x2 - x1, y1 - y2));
+            },
+        });
+    }
+
+    /**
+     * Format a bearing, e.g. `095°`. North is `360°`.
+     */
+    private static bearing(bearing: number): string {
+        return `${String(Math.round(bearing) % 360 || 360).padStart(3, "0")}°`;
+    }
+
+    /**
+     * Format a distance, e.g. `12.3 nm`.
+     */
+    private static distance(distance: number): string {
+        return `${distance.toFixed(1)} nm`;
+    }
+}
+
+export namespace ProcedureChart {
+    /**
+     * Options for rendering a procedure.
+     */
+    export interface Options {
+        /**
+         * Width of the image, in pixels.
+         * @default 600
+         */
+        width?: number;
+
+        /**
+         * Height of the image, in pixels.
+         * @default 600
+         */
+        height?: number;
+
+        /**
+         * Space around the plan view, in pixels.
+         * @default 60
+         */
+        margin?: number;
+
+        /**
+         * Font size of the labels, in pixels.
+         * @default 11
+         */
+        fontSize?: number;
+
+        /**
+         * The airspace of the procedure. If specified, route fixes that are not {@link NamedFix named fixes} are named
+         * after the fixes of the airspace at their position, beacons are looked up for holding patterns, and bearings
+         * are shown as magnetic using the {@link Airspace#magneticVariance magnetic variance} of the airspace.
+         * Otherwise, bearings are true.
+         */
+        airspace?: Airspace;
+    }
+
+    /**
+     * A leg of a procedure, between two consecutive fixes.
+     */
+    export interface Leg {
+        /**
+         * The fix at the start of the leg.
+         */
+        from: Fix;
+
+        /**
+         * The fix at the end of the leg.
+         */
+        to: Fix;
+
+        /**
+         * The initial bearing from {@link from} to {@link to}, in degrees: magnetic if the airspace is known, otherwise
+         * true.
+         */
+        bearing: number;
+
+        /**
+         * The distance from {@link from} to {@link to}, in nautical miles.
+         */
+        distance: number;
+    }
+
+    /**
+     * Converts fixes to screen coordinates.
+     *
+     * @internal
+     */
+    export interface ToScreen {
+        (fix: Fix): Projection.Point;
+
+        /**
+         * Get the direction on the screen of a bearing at a fix, in degrees clockwise from up.
+         */
+        rotation(fix: Fix, bearing: number): number;
+    }
+}
@@ -0,0 +1,276 @@
+import {Airspace} from "../airspace/Airspace.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {Beacon} from "../navigation/Beacon.js";
+import {Fix} from "../navigation/Fix.js";
+import {Equirectangular} from "../projection/Equirectangular.js";
+import {Projection} from "../projection/Projection.js";
+import {Area} from "../shapes/Area.js";
+import {CircleArea} from "../shapes/CircleArea.js";
+import {Polyline} from "../shapes/Polyline.js";
+import {Shape} from "../shapes/Shape.js";
+import {VerticalProfile} from "../validation/VerticalProfile.js";
+import {document, element, pathData, round, text} from "./svg.js";
+
+/**
+ * Renders an {@link Airspace} as an SVG image of the radar scope, e.g. to preview it without loading it into the game.
+ *
+ * The scope is centred on the {@link Airspace#center centre} of the airspace at its {@link Airspace#zoom zoom level},
+ * as in {@link Projection.Viewport}. Each {@link ScopeRenderer.Layer layer} is drawn in its own group, and can be
+ * turned off with {@link ScopeRenderer.Options#layers}.
+ */
+export class ScopeRenderer {
+    readonly #options: Required<ScopeRenderer.Options>;
+
+    /**
+     * @param [options] Rendering options.
+     */
+    public constructor(options: ScopeRenderer.Options = {}) {
+        this.#options = {
+            width: options.width ?? 800,
+            height: options.height ?? 800,
+            layers: options.layers ?? {},
+            colors: {...Polyline.PREVIEW_COLORS, ...options.colors},
+            background: options.background ?? Polyline.RGB.hex(0x1E2A36),
+            foreground: options.foreground ?? Polyline.RGB.hex(0xC8D2DC),
+            fontSize: options.fontSize ?? 11,
+        };
+    }
+
+    /**
+     * Get the viewport of the scope for an airspace.
+     *
+     * @param airspace The airspace.
+     */
+    public viewport(airspace: Airspace): Projection.Viewport {
+        return new Projection.Viewport(new Equirectangular(airspace.center), this.#options.width, this.#options.height, airspace.zoom);
+    }
+
+    /**
+     * Get the SVG document of an airspace.
+     *
+     * @param airspace The airspace to render.
+     */
+    public render(airspace: Airspace): string {
+        const viewport = this.viewport(airspace);
+        const layers: [ScopeRenderer.Layer, () => string[]][] = [
+            [ScopeRenderer.Layer.DRAWINGS, () => airspace.shapes.map(s => this.drawing(viewport, s))],
+            [ScopeRenderer.Layer.BOUNDARY, () => [this.boundary(viewport, airspace)]],
+            [ScopeRenderer.Layer.AREAS, () => airspace.areas.map(a => this.area(viewport, a))],
+            [ScopeRenderer.Layer.ROUTES, () => this.routes(viewport, airspace)],
+            [ScopeRenderer.Layer.RUNWAYS, () => this.runways(viewport, airspace)],
+            [ScopeRenderer.Layer.FIXES, () => this.fixes(viewport, airspace)],
+            [ScopeRenderer.Layer.BEACONS, () => airspace.beacons.map(b => this.beacon(viewport, b))],
+        ];
+        return document(this.#options.width, this.#options.height, [
+            element("rect", {width: "100%", height: "100%", fill: this.#options.background.toHex()}),
+            ...layers
+                .filter(([layer]) => this.#options.layers[layer] ?? true)
+                .map(([layer, render]) => element("g", {class: layer, "font-family": "sans-serif", "font-size": this.#options.fontSize}, render())),
+        ]);
+    }
+
+    private color(color: Polyline.Color | Polyline.RGB): string {
+        return (color instanceof Polyline.RGB ? color : this.#options.colors[color] ?? Polyline.PREVIEW_COLORS[color]).toHex();
+    }
+
+    private boundary(viewport: Projection.Viewport, airspace: Airspace): string {
+        const stroke = this.color(Polyline.Color.AIRSPACE);
+        if (airspace.boundary instanceof Shape)
+            return element("path", {d: pathData(airspace.boundary.vertices.map(v => viewport.toScreen(v)), true), fill: "none", stroke, "stroke-width": 2});
+        const [cx, cy] = viewport.toScreen(airspace.center);
+        return element("circle", {cx, cy, r: airspace.boundary.radius * viewport.scale, fill: "none", stroke, "stroke-width": 2});
+    }
+
+    private drawing(viewport: Projection.Viewport, shape: Shape): string {
+        return element("path", {
+            d: pathData(shape.vertices.map(v => viewport.toScreen(v))),
+            fill: "none",
+            stroke: this.color(shape instanceof Polyline ? shape.color : Polyline.Color.AIRSPACE),
+        });
+    }
+
+    /**
+     * Draw the visible lines of an area and its label: the altitude restriction, with the name beneath it.
+     */
+    private area(viewport: Projection.Viewport, area: Area | CircleArea): string {
+        const stroke = this.color(Polyline.Color.AIRSPACE);
+        const [x, y] = viewport.toScreen(area.label);
+        const label = [
+            text([x, y], String(area.altitude), {fill: stroke, "text-anchor": "middle"}),
+            ...area.name === undefined ? [] : [text([x, y + this.#options.fontSize], area.name, {fill: stroke, "text-anchor": "middle"})],
+        ];
+        return element("g", {}, [...ScopeRenderer.areaLines(viewport, area).map(d => element("path", {d, fill: "none", stroke})), ...label]);
+    }
+
+    /**
+     * Get the path data of the visible lines of an area.
+     */
+    private static areaLines(viewport: Projection.Viewport, area: Area | CircleArea): string[] {
+        if (area instanceof CircleArea) {
+            const [cx, cy] = viewport.toScreen(area.center).map(round) as Projection.Point;
+            const r = round(area.radius * viewport.scale);
+            if (area.visibleArc === undefined)
+                return [`M${cx - r} ${cy} a${r} ${r} 0 1 0 ${2 * r} 0 a${r} ${r} 0 1 0 ${-2 * r} 0`];
+            const [start, end] = area.visibleArc;
+            const sweep = ((end - start) % 360 + 360) % 360;
+            const point = (bearing: number): Projection.Point =>
+                [round(cx + r * Math.sin(Fix.degToRad(bearing))), round(cy - r * Math.cos(Fix.degToRad(bearing)))];
+            const [x1, y1] = point(start);
+            const [x2, y2] = point(end);
+            return [`M${x1} ${y1} A${r} ${r} 0 ${sweep > 180 ? 1 : 0} 1 ${x2} ${y2}`];
+        }
+        const vertices = area.vertices.map(v => viewport.toScreen(v));
+        const visible = Math.max(0, vertices.length - (area.invisible ?? 0));
+        if (visible === 0)
+            return [];
+        return [pathData(Array.from({length: visible + 1}, (_, i) => vertices[i % vertices.length]!))];
+    }
+
+    private runways(viewport: Projection.Viewport, airspace: Airspace): string[] {
+        const stroke = this.color(Polyline.Color.RUNWAY);
+        return airspace.getRunways().flatMap(runway => {
+            const opposite = runway.reverse();
+            const ends = [runway, opposite].map(r => viewport.toScreen(r.position));
+            return [
+                element("path", {d: pathData(ends), stroke, "stroke-width": 3}),
+                ...[runway, opposite].map(r => text(viewport.toScreen(r.position.destination(r.bearing + 180, 0.5)), r.name,
+                    {fill: stroke, "text-anchor": "middle", "dominant-baseline": "middle"})),
+            ];
+        });
+    }
+
+    /**
+     * Draw the lateral paths of the arrivals, continuing down the localiser when they end with an ILS intercept, and of
+     * the departures.
+     */
+    private routes(viewport: Projection.Viewport, airspace: Airspace): string[] {
+        const stroke = this.#options.foreground.toHex();
+        const arrivals = airspace.arrivals.map(arrival => {
+            const fixes: Fix[] = [arrival.beacon, ...arrival.route];
+            const runway = arrival.runways[0];
+            if (arrival.termination instanceof Arrival.IlsIntercept && runway !== undefined)
+                fixes.push(VerticalProfile.interceptPoint(runway, arrival.termination.distance), runway.thr());
+            return fixes;
+        });
+        const departures = airspace.departures.map(departure => [departure.runway.position, ...departure.route]);
+        return [
+            ...arrivals.map(fixes => element("path", {d: pathData(fixes.map(f => viewport.toScreen(f))), fill: "none", stroke, "stroke-opacity": 0.5})),
+            ...departures.map(fixes => element("path", {d: pathData(fixes.map(f => viewport.toScreen(f))), fill: "none", stroke, "stroke-opacity": 0.5, "stroke-dasharray": "6 4"})),
+        ];
+    }
+
+    /**
+     * Draw the named fixes other than beacons, as small crosses with their names. Fixes whose name starts with `@` are
+     * not shown, as in the game.
+     */
+    private fixes(viewport: Projection.Viewport, airspace: Airspace): string[] {
+        const fill = this.#options.foreground.toHex();
+        return airspace.getFixes()
+            .filter(f => !(f instanceof Beacon) && !f.name.startsWith("@"))
+            .map(fix => {
+                const [x, y] = viewport.toScreen(fix).map(round) as Projection.Point;
+                return element("g", {}, [
+                    element("path", {d: `M${x - 3} ${y} h6 M${x} ${y - 3} v6`, stroke: fill}),
+                    text([x + 5, y - 5], fix.name, {fill, "fill-opacity": 0.7}),
+                ]);
+            });
+    }
+
+    private beacon(viewport: Projection.Viewport, beacon: Beacon): string {
+        const fill = this.#options.foreground.toHex();
+        const [x, y] = viewport.toScreen(beacon).map(round) as Projection.Point;
+        return element("g", {}, [
+            element("path", {d: `M${x} ${y - 5} L${x + 4.5} ${y + 3} L${x - 4.5} ${y + 3} Z`, fill: "none", stroke: fill}),
+            text([x + 7, y - 7], beacon.name, {fill}),
+        ]);
+    }
+}
+
+export namespace ScopeRenderer {
+    /**
+     * Layers of the scope, from bottom to top.
+     */
+    export const enum Layer {
+        /**
+         * The {@link Airspace#shapes shapes drawn on the radar screen}, in their colours.
+         */
+        DRAWINGS = "drawings",
+
+        /**
+         * The {@link Airspace#boundary boundary} of the airspace.
+         */
+        BOUNDARY = "boundary",
+
+        /**
+         * The visible lines of the {@link Airspace#areas areas}, and their altitude restrictions at their labels.
+         */
+        AREAS = "areas",
+
+        /**
+         * The lateral paths of the {@link Airspace#arrivals arrivals} and {@link Airspace#departures departures}.
+         */
+        ROUTES = "routes",
+
+        /**
+         * The runways, with their names.
+         */
+        RUNWAYS = "runways",
+
+        /**
+         * The named fixes other than beacons.
+         */
+        FIXES = "fixes",
+
+        /**
+         * The beacons, with their names.
+         */
+        BEACONS = "beacons",
+    }
+
+    /**
+     * Options for rendering an airspace.
+     */
+    export interface Options {
+        /**
+         * Width of the image, in pixels.
+         * @default 800
+         */
+        width?: number;
+
+        /**
+         * Height of the image, in pixels.
+         * @default 800
+         */
+        height?: number;
+
+        /**
+         * Whether each layer is drawn. Layers that are not specified are drawn.
+         * @default {}
+         */
+        layers?: Partial<Record<Layer, boolean>>;
+
+        /**
+         * Colours of the {@link Polyline.Color in-game colours}.
+         * @default {@link Polyline.PREVIEW_COLORS}
+         */
+        colors?: Partial<Record<Polyline.Color, Polyline.RGB>>;
+
+        /**
+         * Background colour of the scope.
+         * @default #1E2A36
+         */
+        background?: Polyline.RGB;
+
+        /**
+         * Colour of the fixes, beacons and routes.
+         * @default #C8D2DC
+         */
+        foreground?: Polyline.RGB;
+
+        /**
+         * Font size of the labels, in pixels.
+         * @default 11
+         */
+        fontSize?: number;
+    }
+}
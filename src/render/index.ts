@@ -0,0 +1,2 @@
+export {ProcedureChart} from "./ProcedureChart.js";
+export {ScopeRenderer} from "./ScopeRenderer.js";
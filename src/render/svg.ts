@@ -0,0 +1,86 @@
+import {Projection} from "../projection/Projection.js";
+
+/**
+ * Attributes of an SVG element. Attributes whose value is `undefined` are omitted.
+ *
+ * @internal
+ */
+export type Attributes = Record<string, string | number | undefined>;
+
+/**
+ * Escape text for use in XML content or attribute values.
+ *
+ * @param text The text.
+ * @internal
+ */
+export function escape(text: string): string {
+    return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Round a coordinate to two decimal places, which is well below a pixel.
+ *
+ * @param value The coordinate.
+ * @internal
+ */
+export function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Get the markup of an element.
+ *
+ * @param name The name of the element.
+ * @param attributes The attributes of the element.
+ * @param [children] The markup of the children of the element. If omitted, the element is self-closing.
+ * @internal
+ */
+export function element(name: string, attributes: Attributes, children?: string | string[]): string {
+    const attrs = Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}="${escape(typeof value === "number" ? String(round(value)) : value!)}"`)
+        .join("");
+    if (children === undefined)
+        return `<${name}${attrs}/>`;
+    return `<${name}${attrs}>${Array.isArray(children) ? children.join("") : children}</${name}>`;
+}
+
+/**
+ * Get the markup of a text element.
+ *
+ * @param point The position of the text.
+ * @param text The text.
+ * @param attributes The attributes of the element.
+ * @internal
+ */
+export function text([x, y]: Projection.Point, text: string, attributes: Attributes = {}): string {
+    return element("text", {x, y, ...attributes}, escape(text));
+}
+
+/**
+ * Get the path data of a line through points.
+ *
+ * @param points The points.
+ * @param [closed=false] Whether to close the path back to the first point.
+ * @internal
+ */
+export function pathData(points: ReadonlyArray<Projection.Point>, closed: boolean = false): string {
+    return points.map(([x, y], i) => `${i === 0 ? "M" : "L"}${round(x)} ${round(y)}`).join(" ") + (closed ? " Z" : "");
+}
+
+/**
+ * Get the markup of a standalone SVG document.
+ *
+ * @param width Width of the document, in pixels.
+ * @param height Height of the document, in pixels.
+ * @param children The markup of the content.
+ * @internal
+ */
+export function document(width: number, height: number, children: string[]): string {
+    return element("svg", {
+        xmlns: "http://www.w3.org/2000/svg",
+        width,
+        height,
+        viewBox: `0 0 ${width} ${height}`,
+    }, ["\n", ...children.map(c => c + "\n")]) + "\n";
+}
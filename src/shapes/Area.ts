@@ -83,4 +83,41 @@ export class Area extends Shape {
             this.invisible = invisible;
         }
     }
+
+    public override union(other: Shape): Area[] {
+        return super.union(other) as Area[];
+    }
+
+    public override intersection(other: Shape): Area[] {
+        return super.intersection(other) as Area[];
+    }
+
+    public override difference(other: Shape): Area[] {
+        return super.difference(other) as Area[];
+    }
+
+    public override offset(distance: number, segments?: number): Area {
+        return super.offset(distance, segments) as Area;
+    }
+
+    public override buffer(distance: number, segments?: number): Area {
+        return super.buffer(distance, segments) as Area;
+    }
+
+    protected override get closed(): boolean {
+        return true;
+    }
+
+    /**
+     * Create an area with the name, altitude and label of this area. The edges of the new area do not correspond to
+     * the edges of this area, so it is only invisible if this area is entirely invisible.
+     *
+     * @param vertices The vertices of the new area.
+     */
+    protected override derive(vertices: Fix[]): Area {
+        const invisible = this.invisible === Infinity ? Infinity : undefined;
+        return this.name === undefined
+            ? new Area(this.altitude, this.label, vertices, invisible)
+            : new Area(this.name, this.altitude, this.label, vertices, invisible);
+    }
 }
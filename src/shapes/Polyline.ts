@@ -15,6 +15,35 @@ export class Polyline extends Shape {
     ) {
         super(vertices);
     }
+
+    public override union(other: Shape): Polyline[] {
+        return super.union(other) as Polyline[];
+    }
+
+    public override intersection(other: Shape): Polyline[] {
+        return super.intersection(other) as Polyline[];
+    }
+
+    public override difference(other: Shape): Polyline[] {
+        return super.difference(other) as Polyline[];
+    }
+
+    public override offset(distance: number, segments?: number): Polyline {
+        return super.offset(distance, segments) as Polyline;
+    }
+
+    public override buffer(distance: number, segments?: number): Polyline {
+        return super.buffer(distance, segments) as Polyline;
+    }
+
+    /**
+     * Create a polyline with the colour of this polyline. A {@link Circle} derives plain polylines.
+     *
+     * @param vertices The vertices of the new polyline.
+     */
+    protected override derive(vertices: Fix[]): Polyline {
+        return new Polyline(vertices, this.color);
+    }
 }
 
 export namespace Polyline {
@@ -68,5 +97,22 @@ export namespace Polyline {
                 throw new RangeError("Hex colour must be a 3-byte unsigned integer");
             return new RGB((hex >> 16) & 0xFF, (hex >> 8) & 0xFF, hex & 0xFF);
         }
+
+        /**
+         * Format this colour as `#rrggbb`.
+         */
+        public toHex(): `#${string}` {
+            return `#${[this.r, this.g, this.b].map(c => c.toString(16).padStart(2, "0")).join("")}`;
+        }
     }
+
+    /**
+     * Colours used for the {@link Color in-game colours} when an airspace is previewed outside the game, similar to
+     * the game’s default theme.
+     */
+    export const PREVIEW_COLORS: Readonly<Record<Color, RGB>> = {
+        [Color.COAST]: RGB.hex(0x3F5A73),
+        [Color.AIRSPACE]: RGB.hex(0x66788A),
+        [Color.RUNWAY]: RGB.hex(0xE6E6E6),
+    };
 }
@@ -1,7 +1,14 @@
 import {Fix} from "../navigation/Fix.js";
+import {AzimuthalEquidistant} from "../projection/AzimuthalEquidistant.js";
+import {Projection} from "../projection/Projection.js";
+import {clip, offset, Operation, signedArea} from "./polygon.js";
 
 /**
  * An ordered sequence of vertices.
+ *
+ * For {@link contains}, {@link area}, {@link perimeter} and the polygon operations, the vertices are treated as a
+ * closed polygon, in which the last vertex is connected to the first. Polygon operations are computed in an azimuthal
+ * equidistant projection around the shapes, which is accurate for shapes spanning up to a few hundred nautical miles.
  */
 export abstract class Shape {
     readonly #vertices: Fix[];
@@ -57,4 +64,215 @@ export abstract class Shape {
         this.#vertices.reverse();
         return this;
     }
+
+    /**
+     * Get the planar coordinates of the vertices of this shape, e.g. to draw it.
+     *
+     * @param projection The projection.
+     * @returns The coordinates of each vertex, in nautical miles east and north of the centre of the projection.
+     */
+    public project(projection: Projection): Projection.Point[] {
+        return this.#vertices.map(v => projection.project(v));
+    }
+
+    /**
+     * Simplify this shape with the Douglas–Peucker algorithm, removing vertices that are closer than a tolerance to
+     * the great circle through their neighbours.
+     *
+     * @param tolerance Maximum distance, in nautical miles, between a removed vertex and the simplified shape.
+     */
+    public simplify(tolerance: number) {
+        const path = this.closed && this.#vertices.length > 2
+            ? [...this.#vertices, this.#vertices[0]!]
+            : this.#vertices;
+        if (path.length < 3)
+            return this;
+
+        const keep = new Set([0, path.length - 1]);
+        const stack: [number, number][] = [[0, path.length - 1]];
+        while (stack.length > 0) {
+            const [first, last] = stack.pop()!;
+            let farthest = -1;
+            let distance = tolerance;
+            for (let i = first + 1; i < last; ++i) {
+                const d = Shape.segmentDistance(path[i]!, path[first]!, path[last]!);
+                if (d > distance) {
+                    farthest = i;
+                    distance = d;
+                }
+            }
+            if (farthest !== -1) {
+                keep.add(farthest);
+                stack.push([first, farthest], [farthest, last]);
+            }
+        }
+
+        const vertices = path.filter((_, i) => keep.has(i));
+        if (path !== this.#vertices)
+            vertices.pop();
+        this.#vertices.splice(0, this.#vertices.length, ...vertices);
+        return this;
+    }
+
+    /**
+     * Insert vertices along the great circle between vertices that are further apart than a maximum distance, so
+     * that long edges follow the great circle when drawn as straight lines.
+     *
+     * @param maxSegment Maximum distance, in nautical miles, between consecutive vertices.
+     */
+    public densify(maxSegment: number) {
+        const vertices: Fix[] = [];
+        const edges = this.closed ? this.#vertices.length : this.#vertices.length - 1;
+        this.#vertices.forEach((v, i) => {
+            vertices.push(v);
+            if (i >= edges)
+                return;
+            const next = this.#vertices[(i + 1) % this.#vertices.length]!;
+            const distance = v.distance(next);
+            const segments = Math.ceil(distance / maxSegment);
+            const bearing = v.initialBearing(next);
+            for (let k = 1; k < segments; ++k)
+                vertices.push(v.destination(bearing, distance * k / segments));
+        });
+        this.#vertices.splice(0, this.#vertices.length, ...vertices);
+        return this;
+    }
+
+    /**
+     * Whether this shape is drawn as a closed polygon, in which the last vertex is connected to the first.
+     */
+    protected get closed(): boolean {
+        return false;
+    }
+
+    /**
+     * Get the distance from a fix to the great circle segment between two other fixes.
+     *
+     * @returns The distance, in nautical miles.
+     */
+    private static segmentDistance(fix: Fix, start: Fix, end: Fix): number {
+        const along = fix.alongTrackDistance(start, end);
+        if (along < 0)
+            return start.distance(fix);
+        if (along > start.distance(end))
+            return end.distance(fix);
+        return Math.abs(fix.crossTrackDistance(start, end));
+    }
+
+    /**
+     * Whether the polygon formed by this shape contains a fix.
+     *
+     * @param fix The fix.
+     */
+    public contains(fix: Fix): boolean {
+        let winding = 0;
+        this.#vertices.forEach((v, i) => {
+            const next = this.#vertices[(i + 1) % this.#vertices.length]!;
+            winding += ((fix.initialBearing(next) - fix.initialBearing(v)) % 360 + 540) % 360 - 180;
+        });
+        return Math.abs(winding) > 180;
+    }
+
+    /**
+     * Get the area of the polygon formed by this shape on the surface of the Earth.
+     *
+     * @returns The area, in square nautical miles.
+     */
+    public area(): number {
+        const r = Fix.R / Fix.NMI;
+        let sum = 0;
+        this.#vertices.forEach((v, i) => {
+            const [φ1, λ1] = v.toRadians();
+            const [φ2, λ2] = this.#vertices[(i + 1) % this.#vertices.length]!.toRadians();
+            const Δλ = Math.atan2(Math.sin(λ2 - λ1), Math.cos(λ2 - λ1));
+            sum += Δλ * (2 + Math.sin(φ1) + Math.sin(φ2));
+        });
+        return Math.abs(sum * r * r / 2);
+    }
+
+    /**
+     * Get the perimeter of the polygon formed by this shape, including the edge from the last vertex to the first.
+     *
+     * @returns The perimeter, in nautical miles.
+     */
+    public perimeter(): number {
+        return this.#vertices.reduce((sum, v, i) =>
+            sum + v.distance(this.#vertices[(i + 1) % this.#vertices.length]!), 0);
+    }
+
+    /**
+     * Get the union of this shape and another.
+     *
+     * @param other The other shape, e.g. a {@link Circle}.
+     * @returns Shapes derived from this shape. Disjoint shapes result in two shapes.
+     */
+    public union(other: Shape): Shape[] {
+        return this.clip(other, Operation.UNION);
+    }
+
+    /**
+     * Get the intersection of this shape and another.
+     *
+     * @param other The other shape, e.g. a {@link Circle}.
+     * @returns Shapes derived from this shape, one for each separate part of the intersection.
+     */
+    public intersection(other: Shape): Shape[] {
+        return this.clip(other, Operation.INTERSECTION);
+    }
+
+    /**
+     * Subtract another shape from this shape.
+     *
+     * If the other shape lies entirely inside this shape, the resulting shape is connected to the hole by a
+     * zero-width cut.
+     *
+     * @param other The other shape, e.g. a {@link Circle}.
+     * @returns Shapes derived from this shape, one for each separate part of the difference.
+     */
+    public difference(other: Shape): Shape[] {
+        return this.clip(other, Operation.DIFFERENCE);
+    }
+
+    /**
+     * Grow or shrink the polygon formed by this shape.
+     *
+     * Convex corners are rounded when growing and concave corners are rounded when shrinking.
+     *
+     * @param distance Distance, in nautical miles, to move each edge outwards. Negative to move it inwards.
+     * @param [segments=36] Number of segments in a full circle used to approximate rounded corners.
+     * @returns A shape derived from this shape.
+     */
+    public offset(distance: number, segments: number = 36): Shape {
+        const plane = AzimuthalEquidistant.around(this.#vertices);
+        const ring = this.project(plane);
+        return this.derive(offset(ring, signedArea(ring) < 0 ? -distance : distance, true, segments)
+            .map(p => plane.unproject(p)));
+    }
+
+    /**
+     * Get the area within a distance of the line through the vertices of this shape, such as a 5 nm buffer around a
+     * runway. Unlike {@link offset}, the line is not closed.
+     *
+     * @param distance Distance, in nautical miles.
+     * @param [segments=36] Number of segments in a full circle used to approximate the rounded ends and corners.
+     * @returns A shape derived from this shape.
+     */
+    public buffer(distance: number, segments: number = 36): Shape {
+        const plane = AzimuthalEquidistant.around(this.#vertices);
+        return this.derive(offset(this.project(plane), Math.abs(distance), false, segments)
+            .map(p => plane.unproject(p)));
+    }
+
+    /**
+     * Create a shape of the same kind as this shape, with other vertices.
+     *
+     * @param vertices The vertices of the new shape.
+     */
+    protected abstract derive(vertices: Fix[]): Shape;
+
+    private clip(other: Shape, operation: Operation): Shape[] {
+        const plane = AzimuthalEquidistant.around([...this.#vertices, ...other.vertices]);
+        return clip(this.project(plane), other.project(plane), operation)
+            .map(ring => this.derive(ring.map(p => plane.unproject(p))));
+    }
 }
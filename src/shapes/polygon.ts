@@ -0,0 +1,345 @@
+import {Projection} from "../projection/Projection.js";
+
+/**
+ * A point in a {@link Projection}, in nautical miles east and north of its centre.
+ *
+ * @internal
+ */
+export type Point = Projection.Point;
+
+/**
+ * A closed ring of points, without repeating the first point at the end.
+ *
+ * @internal
+ */
+export type Ring = Point[];
+
+/**
+ * Boolean polygon operation.
+ *
+ * @internal
+ */
+export const enum Operation {
+    UNION,
+    INTERSECTION,
+    DIFFERENCE,
+}
+
+/**
+ * Distance, in nautical miles, below which points are considered to lie on an edge.
+ */
+const EPSILON = 1e-9;
+
+/**
+ * Distance, in nautical miles, by which points on an edge of the other ring are moved.
+ */
+const NUDGE = 1e-7;
+
+/**
+ * Remove consecutive duplicate points, including a last point that repeats the first.
+ *
+ * @internal
+ */
+export function normalise(ring: ReadonlyArray<Point>, tolerance: number = EPSILON): Ring {
+    const result: Ring = [];
+    for (const p of ring) {
+        const previous = result[result.length - 1];
+        if (previous === undefined || Math.hypot(p[0] - previous[0], p[1] - previous[1]) > tolerance)
+            result.push(p);
+    }
+    const [first] = result;
+    while (result.length > 1 && Math.hypot(first![0] - result[result.length - 1]![0], first![1] - result[result.length - 1]![1]) <= tolerance)
+        result.pop();
+    return result;
+}
+
+/**
+ * Signed area of a ring, positive if the ring is anticlockwise.
+ *
+ * @internal
+ */
+export function signedArea(ring: ReadonlyArray<Point>): number {
+    let sum = 0;
+    ring.forEach(([x1, y1], i) => {
+        const [x2, y2] = ring[(i + 1) % ring.length]!;
+        sum += x1 * y2 - x2 * y1;
+    });
+    return sum / 2;
+}
+
+/**
+ * Whether a ring contains a point, using the even–odd rule.
+ *
+ * @internal
+ */
+export function contains(ring: ReadonlyArray<Point>, [x, y]: Point): boolean {
+    let inside = false;
+    ring.forEach(([x1, y1], i) => {
+        const [x2, y2] = ring[(i + ring.length - 1) % ring.length]!;
+        if ((y1 > y) !== (y2 > y) && x < (x2 - x1) * (y - y1) / (y2 - y1) + x1)
+            inside = !inside;
+    });
+    return inside;
+}
+
+class Vertex {
+    public next: Vertex = this;
+    public prev: Vertex = this;
+    public corresponding?: Vertex;
+    public entry = false;
+    public visited = false;
+
+    public constructor(public readonly point: Point, public readonly alpha = -1) {}
+
+    public get intersection(): boolean {
+        return this.corresponding !== undefined;
+    }
+
+    public visit() {
+        this.visited = true;
+        if (this.corresponding !== undefined && !this.corresponding.visited)
+            this.corresponding.visit();
+    }
+
+    public static list(ring: Ring): Vertex[] {
+        const vertices = ring.map(p => new Vertex(p));
+        vertices.forEach((v, i) => {
+            v.next = vertices[(i + 1) % vertices.length]!;
+            v.prev = vertices[(i + vertices.length - 1) % vertices.length]!;
+        });
+        return vertices;
+    }
+
+    /**
+     * Insert an intersection between this original vertex and the next original vertex, ordered by alpha.
+     */
+    public insert(vertex: Vertex) {
+        let current: Vertex = this;
+        while (current.next.intersection && current.next.alpha < vertex.alpha)
+            current = current.next;
+        vertex.next = current.next;
+        vertex.prev = current;
+        current.next.prev = vertex;
+        current.next = vertex;
+    }
+}
+
+function segmentDistance([x, y]: Point, [x1, y1]: Point, [x2, y2]: Point): number {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const t = dx === 0 && dy === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / (dx * dx + dy * dy)));
+    return Math.hypot(x - x1 - t * dx, y - y1 - t * dy);
+}
+
+/**
+ * Move points that lie on an edge of another ring a negligible distance into that ring, so that every intersection of
+ * the two rings is a proper crossing of two edges, and rings that share an edge overlap.
+ */
+function perturb(ring: Ring, other: Ring): Ring {
+    const orientation = Math.sign(signedArea(other));
+    return ring.map(p => {
+        const i = other.findIndex((q, i) => segmentDistance(p, q, other[(i + 1) % other.length]!) < EPSILON);
+        if (i === -1)
+            return p;
+        const [x1, y1] = other[i]!;
+        const [x2, y2] = other[(i + 1) % other.length]!;
+        const length = Math.hypot(x2 - x1, y2 - y1);
+        // the interior is to the left of an anticlockwise ring; also move along the edge, away from its vertices
+        return [
+            p[0] + NUDGE * orientation * -(y2 - y1) / length + NUDGE * 0.3 * (x2 - x1) / length,
+            p[1] + NUDGE * orientation * (x2 - x1) / length + NUDGE * 0.3 * (y2 - y1) / length,
+        ];
+    });
+}
+
+function intersect(a: Point, b: Point, c: Point, d: Point): [alphaAB: number, alphaCD: number] | undefined {
+    const denominator = (d[1] - c[1]) * (b[0] - a[0]) - (d[0] - c[0]) * (b[1] - a[1]);
+    if (denominator === 0)
+        return undefined;
+    const ab = ((d[0] - c[0]) * (a[1] - c[1]) - (d[1] - c[1]) * (a[0] - c[0])) / denominator;
+    const cd = ((b[0] - a[0]) * (a[1] - c[1]) - (b[1] - a[1]) * (a[0] - c[0])) / denominator;
+    return ab > 0 && ab < 1 && cd > 0 && cd < 1 ? [ab, cd] : undefined;
+}
+
+/**
+ * Merge a hole into the ring that contains it, by connecting the two at their closest vertices.
+ */
+function keyhole(outer: Ring, hole: Ring): Ring {
+    if (signedArea(outer) * signedArea(hole) > 0)
+        hole = hole.slice().reverse();
+    let best: [number, number, number] = [Infinity, 0, 0];
+    outer.forEach((p, i) => hole.forEach((q, j) => {
+        const distance = Math.hypot(p[0] - q[0], p[1] - q[1]);
+        if (distance < best[0])
+            best = [distance, i, j];
+    }));
+    const [, i, j] = best;
+    return [
+        ...outer.slice(0, i + 1),
+        ...hole.slice(j), ...hole.slice(0, j + 1),
+        ...outer.slice(i),
+    ];
+}
+
+/**
+ * Merge rings that lie inside other rings into them as holes.
+ */
+function resolveHoles(rings: Ring[]): Ring[] {
+    const sorted = rings
+        .map(ring => [ring, Math.abs(signedArea(ring))] as const)
+        .sort(([, a], [, b]) => b - a)
+        .map(([ring]) => ring);
+    const outers: Ring[] = [];
+    for (const ring of sorted) {
+        const containers = outers.filter(outer => contains(outer, ring[0]!));
+        const container = containers[containers.length - 1];
+        if (container === undefined)
+            outers.push(ring);
+        else outers[outers.indexOf(container)] = keyhole(container, ring);
+    }
+    return outers;
+}
+
+/**
+ * Apply a boolean operation to two rings using the Greiner–Hormann algorithm.
+ *
+ * Holes in the result are merged into the ring that contains them, so that every result is a single ring.
+ *
+ * @internal
+ */
+export function clip(subject: Ring, clipping: Ring, operation: Operation): Ring[] {
+    subject = normalise(subject);
+    clipping = perturb(normalise(clipping), subject);
+    subject = perturb(subject, clipping);
+    if (subject.length < 3 || clipping.length < 3)
+        switch (operation) {
+            case Operation.UNION: return [subject, clipping].filter(r => r.length >= 3);
+            case Operation.INTERSECTION: return [];
+            case Operation.DIFFERENCE: return subject.length >= 3 ? [subject] : [];
+        }
+
+    const s = Vertex.list(subject);
+    const c = Vertex.list(clipping);
+    s.forEach((a, i) => {
+        const b = s[(i + 1) % s.length]!;
+        c.forEach((d, j) => {
+            const e = c[(j + 1) % c.length]!;
+            const alpha = intersect(a.point, b.point, d.point, e.point);
+            if (alpha === undefined)
+                return;
+            const point: Point = [
+                a.point[0] + alpha[0] * (b.point[0] - a.point[0]),
+                a.point[1] + alpha[0] * (b.point[1] - a.point[1]),
+            ];
+            const si = new Vertex(point, alpha[0]);
+            const ci = new Vertex(point, alpha[1]);
+            si.corresponding = ci;
+            ci.corresponding = si;
+            a.insert(si);
+            d.insert(ci);
+        });
+    });
+
+    const subjectInside = contains(clipping, subject[0]!);
+    const clipInside = contains(subject, clipping[0]!);
+    const subjectForwards = (operation === Operation.INTERSECTION) !== subjectInside;
+    const clipForwards = (operation !== Operation.UNION) !== clipInside;
+    for (const [first, forwards] of [[s[0]!, subjectForwards], [c[0]!, clipForwards]] as const) {
+        let v = first;
+        let f = forwards;
+        do {
+            if (v.intersection) {
+                v.entry = f;
+                f = !f;
+            }
+            v = v.next;
+        } while (v !== first);
+    }
+
+    const rings: Ring[] = [];
+    for (let start = s[0]!.next; start !== s[0]; start = start.next) {
+        if (!start.intersection || start.visited)
+            continue;
+        let current = start;
+        const ring: Point[] = [current.point];
+        do {
+            current.visit();
+            const forwards = current.entry;
+            do {
+                current = forwards ? current.next : current.prev;
+                ring.push(current.point);
+            } while (!current.intersection);
+            current = current.corresponding!;
+        } while (!current.visited);
+        rings.push(normalise(ring, 10 * NUDGE));
+    }
+
+    if (rings.length === 0)
+        switch (operation) {
+            case Operation.UNION:
+                return subjectInside ? [clipping] : clipInside ? [subject] : [subject, clipping];
+            case Operation.INTERSECTION:
+                return subjectInside ? [subject] : clipInside ? [clipping] : [];
+            case Operation.DIFFERENCE:
+                return subjectInside ? [] : clipInside ? [keyhole(subject, clipping)] : [subject];
+        }
+    return resolveHoles(rings.filter(r => r.length >= 3 && Math.abs(signedArea(r)) > NUDGE));
+}
+
+/**
+ * Offset a path to its right by a distance, with round joins where the offset opens a gap and mitred joins where
+ * it overlaps.
+ *
+ * @param path The points of the path.
+ * @param distance Distance to the right of the path, in nautical miles. Negative to offset to the left.
+ * @param closed Whether the path is a closed ring.
+ * @param segments Number of segments in a full circle used to approximate round joins.
+ * @internal
+ */
+export function offset(path: ReadonlyArray<Point>, distance: number, closed: boolean, segments: number): Ring {
+    const points = normalise(path);
+    if (points.length === 1) {
+        const [x, y] = points[0]!;
+        return Array.from({length: segments}, (_, i) => {
+            const α = -2 * Math.PI * i / segments;
+            return [x + distance * Math.cos(α), y + distance * Math.sin(α)] as Point;
+        });
+    }
+
+    // an open path is offset as the closed path that goes there and back
+    const ring = closed ? points : [...points, ...points.slice(1, -1).reverse()];
+    const angles = ring.map((p, i) => {
+        const q = ring[(i + 1) % ring.length]!;
+        return Math.atan2(q[1] - p[1], q[0] - p[0]);
+    });
+    const result: Point[] = [];
+    ring.forEach(([x, y], i) => {
+        const φ1 = angles[(i + ring.length - 1) % ring.length]!;
+        const φ2 = angles[i]!;
+        let δ = Math.atan2(Math.sin(φ2 - φ1), Math.cos(φ2 - φ1));
+        if (Math.abs(Math.abs(δ) - Math.PI) < 1e-12)
+            δ = Math.PI;
+        const at = (α: number): Point => [x + distance * Math.cos(α), y + distance * Math.sin(α)];
+        const α1 = φ1 - Math.PI / 2;
+        if (Math.abs(δ) < 1e-12)
+            result.push(at(α1));
+        else if (δ * distance > 0) {
+            const steps = Math.max(1, Math.ceil(Math.abs(δ) / (2 * Math.PI) * segments));
+            for (let k = 0; k <= steps; ++k)
+                result.push(at(α1 + δ * k / steps));
+        }
+        else {
+            const α2 = φ2 - Math.PI / 2;
+            const n1: Point = [Math.cos(α1), Math.sin(α1)];
+            const n2: Point = [Math.cos(α2), Math.sin(α2)];
+            const denominator = 1 + n1[0] * n2[0] + n1[1] * n2[1];
+            if (denominator < 1e-9)
+                result.push(at(α1), at(α2));
+            else result.push([
+                x + distance * (n1[0] + n2[0]) / denominator,
+                y + distance * (n1[1] + n2[1]) / denominator,
+            ]);
+        }
+    });
+    return normalise(result);
+}
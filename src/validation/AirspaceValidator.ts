@@ -0,0 +1,286 @@
+import {Airspace} from "../airspace/Airspace.js";
+import {HandoffSectors} from "../airspace/HandoffSectors.js";
+import {Frequency} from "../Frequency.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {Departure} from "../navigation/Departure.js";
+import {Fix} from "../navigation/Fix.js";
+import {Hold} from "../navigation/Hold.js";
+import {NamedFix} from "../navigation/NamedFix.js";
+import {Runway} from "../Runway.js";
+import {Finding} from "./Finding.js";
+import {GeometryValidator} from "./GeometryValidator.js";
+import {VerticalProfile} from "./VerticalProfile.js";
+
+/**
+ * Checks a whole {@link Airspace} for problems that the model itself does not prevent, such as references to runways
+ * that were never added, altitudes in the wrong order, and beacons that are never used.
+ */
+export class AirspaceValidator {
+    /**
+     * Maximum number of characters of a route name displayed in the game.
+     */
+    public static readonly MAX_NAME_LENGTH = 7;
+
+    readonly #options: AirspaceValidator.Options;
+
+    /**
+     * @param [options] Validation options.
+     */
+    public constructor(options: AirspaceValidator.Options = {}) {
+        this.#options = options;
+    }
+
+    /**
+     * Validate an airspace.
+     *
+     * @param airspace The airspace to validate.
+     * @returns The problems found, ordered by the part of the airspace in which they were found.
+     */
+    public validate(airspace: Airspace): Finding[] {
+        return [
+            ...this.primaryAirport(airspace),
+            ...this.altitudes(airspace),
+            ...this.departureFrequencies(airspace),
+            ...this.frequencies(airspace),
+            ...this.runways(airspace),
+            ...this.runwayDesignators(airspace),
+            ...this.arrivals(airspace),
+            ...this.verticalProfiles(airspace),
+            ...this.departures(airspace),
+            ...this.handoffSectors(airspace),
+            ...this.runwayConfigurations(airspace),
+            ...this.entryPoints(airspace),
+            ...this.beacons(airspace),
+            ...this.names(airspace),
+            ...new GeometryValidator(this.#options.hold).validate(airspace),
+        ];
+    }
+
+    /**
+     * Whether a runway, or the runway of which it is the opposite end, is registered in the airspace.
+     */
+    private static isRegistered(airspace: Airspace, runway: Runway): boolean {
+        return airspace.getRunways().some(r => r.id === runway.realId());
+    }
+
+    private primaryAirport(airspace: Airspace): Finding[] {
+        if (airspace.hasPrimaryAirport())
+            return [];
+        return [new Finding(Finding.Severity.ERROR, "missing-primary-airport", "The airspace has no primary airport.", airspace)];
+    }
+
+    private altitudes(airspace: Airspace): Finding[] {
+        const findings: Finding[] = [];
+        const check = (lower: [name: string, value: number], upper: [name: string, value: number], min: number, max = Infinity) => {
+            const difference = upper[1] - lower[1];
+            if (difference <= 0)
+                findings.push(new Finding(Finding.Severity.ERROR, "altitude-order",
+                    `The ${upper[0]} (${upper[1]}) must be above the ${lower[0]} (${lower[1]}).`, airspace));
+            else if (difference < min || difference > max)
+                findings.push(new Finding(Finding.Severity.WARNING, "altitude-order",
+                    `The ${upper[0]} (${upper[1]}) should be ${max === Infinity ? `at least ${min}` : `${min} to ${max}`} feet above the ${lower[0]} (${lower[1]}).`,
+                    airspace));
+        };
+        check(["elevation", airspace.elevation], ["floor altitude", airspace.floorAltitude], 1100, 2500);
+        check(["floor altitude", airspace.floorAltitude], ["descent altitude", airspace.descentAltitude], 1000);
+        check(["descent altitude", airspace.descentAltitude], ["ceiling altitude", airspace.ceilingAltitude], 1000);
+        check(["ceiling altitude", airspace.ceilingAltitude], ["departure altitude", airspace.departureAltitude], 2000);
+        check(["floor altitude", airspace.floorAltitude], ["departure diversion altitude", airspace.departureDiversionAltitude], 0);
+        return findings;
+    }
+
+    private departureFrequencies(airspace: Airspace): Finding[] {
+        if (airspace.departureFrequencies.length > 0)
+            return [];
+        return [new Finding(Finding.Severity.ERROR, "no-departure-frequencies",
+            "The airspace has no departure hand-off frequencies.", airspace)];
+    }
+
+    private frequencies(airspace: Airspace): Finding[] {
+        const findings: Finding[] = [];
+        const stations: {station: string, description: string, frequency: Frequency, subject: object}[] = [];
+        const parse = (value: number, description: string, subject: object): Frequency | undefined => {
+            try {
+                return Frequency.parse(value);
+            }
+            catch (e) {
+                findings.push(new Finding(Finding.Severity.ERROR, "invalid-frequency",
+                    `The ${description} frequency is invalid: ${(e as Error).message}`, subject));
+                return undefined;
+            }
+        };
+
+        const airports = [...(airspace.hasPrimaryAirport() ? [airspace.getPrimaryAirport()] : []), ...airspace.getSecondaryAirports()];
+        for (const airport of airports)
+            for (const runway of airport.runways) {
+                if (runway.towerFrequency === undefined)
+                    continue;
+                const description = `${airport.code} runway ${runway.name} tower`;
+                const frequency = parse(runway.towerFrequency, description, runway);
+                if (frequency !== undefined)
+                    stations.push({station: `tower ${airport.code}`, description, frequency, subject: runway});
+            }
+        for (const handoff of airspace.departureFrequencies) {
+            if (handoff.frequency === undefined)
+                continue;
+            const description = `${handoff.callsign} departure hand-off`;
+            const frequency = parse(handoff.frequency, description, handoff);
+            if (frequency !== undefined)
+                stations.push({station: `departure ${handoff.callsign}`, description, frequency, subject: handoff});
+        }
+
+        stations.forEach((a, i) => stations.slice(i + 1)
+            .filter(b => a.station !== b.station && a.frequency.overlaps(b.frequency))
+            .forEach(b => findings.push(new Finding(Finding.Severity.WARNING, "frequency-conflict",
+                a.frequency.equals(b.frequency)
+                    ? `The ${a.description} and the ${b.description} both use ${a.frequency}.`
+                    : `The ${a.description} (${a.frequency}) and the ${b.description} (${b.frequency}) are tuned to the same frequency.`,
+                b.subject))));
+
+        for (const airport of airports)
+            for (const airline of airport.airlines)
+                if (Frequency.tryParse(airline.frequency) !== undefined)
+                    findings.push(new Finding(Finding.Severity.WARNING, "airline-frequency-weight",
+                        `Airline ${airline.callsign} frequency (${airline.frequency}) is a weight of how often the airline appears, not a radio frequency.`,
+                        airline));
+
+        return findings;
+    }
+
+    private runways(airspace: Airspace): Finding[] {
+        return airspace.getRunways()
+            .filter(r => r.elevation !== undefined && Math.abs(r.elevation - airspace.elevation) > 1000)
+            .map(r => new Finding(Finding.Severity.WARNING, "runway-elevation",
+                `Runway ${r.name} elevation (${r.elevation}) is more than 1000 feet from the airspace elevation (${airspace.elevation}).`, r));
+    }
+
+    private runwayDesignators(airspace: Airspace): Finding[] {
+        return airspace.getRunways().flatMap(r => [r, r.reverse()]).flatMap(r => {
+            const magnetic = airspace.toMagnetic(r.bearing);
+            const expected = Runway.designator(magnetic);
+            const offset = Math.abs(Number.parseInt(r.name) - expected) % 36;
+            const difference = Math.min(offset, 36 - offset);
+            if (difference === 0)
+                return [];
+            return [new Finding(difference > 1 ? Finding.Severity.WARNING : Finding.Severity.INFO, "runway-designator",
+                `Runway ${r.name} has a magnetic bearing of ${Math.round(magnetic)}°, which suggests runway ${String(expected).padStart(2, "0")}.`, r)];
+        });
+    }
+
+    private name(route: Arrival | Departure): Finding[] {
+        if (route.name.length <= AirspaceValidator.MAX_NAME_LENGTH)
+            return [];
+        return [new Finding(Finding.Severity.INFO, "long-name",
+            `${route instanceof Arrival ? "Arrival" : "Departure"} ${route.name} will be displayed as ${route.name.slice(0, AirspaceValidator.MAX_NAME_LENGTH)}.`,
+            route)];
+    }
+
+    private arrivals(airspace: Airspace): Finding[] {
+        return airspace.arrivals.flatMap(arrival => {
+            const findings = this.name(arrival);
+            const unregistered = arrival.runways.filter(r => !AirspaceValidator.isRegistered(airspace, r));
+            if (unregistered.length === arrival.runways.length)
+                findings.push(new Finding(Finding.Severity.ERROR, "route-without-runway",
+                    `Arrival ${arrival.name} does not use any registered runway.`, arrival));
+            else findings.push(...unregistered.map(r => new Finding(Finding.Severity.ERROR, "unregistered-runway",
+                `Arrival ${arrival.name} uses unregistered runway ${r.name}.`, arrival)));
+            return findings;
+        });
+    }
+
+    private verticalProfiles(airspace: Airspace): Finding[] {
+        return airspace.arrivals.flatMap(arrival => new VerticalProfile(arrival, this.#options.profile).check(airspace.elevation));
+    }
+
+    private departures(airspace: Airspace): Finding[] {
+        return airspace.departures.flatMap(departure => {
+            const findings = this.name(departure);
+            if (!AirspaceValidator.isRegistered(airspace, departure.runway))
+                findings.push(new Finding(Finding.Severity.ERROR, "route-without-runway",
+                    `Departure ${departure.name} uses unregistered runway ${departure.runway.name}.`, departure));
+            return findings;
+        });
+    }
+
+    private handoffSectors(airspace: Airspace): Finding[] {
+        if (airspace.departures.length === 0)
+            return [];
+        return new HandoffSectors(airspace).unused().map(s => new Finding(Finding.Severity.INFO, "unused-handoff",
+            `No departure is handed off to ${s.handoff.callsign} (bearings ${Math.round(s.start)}° to ${Math.round(s.end)}°).`, s.handoff));
+    }
+
+    private runwayConfigurations(airspace: Airspace): Finding[] {
+        const primary = airspace.hasPrimaryAirport()
+            ? new Set(Array.from(airspace.getPrimaryAirport().runways, r => r.id))
+            : null;
+        return airspace.runwayConfigs.flatMap(config => config.scores.flatMap(([, runway]) => {
+            if (!AirspaceValidator.isRegistered(airspace, runway))
+                return [new Finding(Finding.Severity.ERROR, "unregistered-runway",
+                    `Runway configuration uses unregistered runway ${runway.name}.`, config)];
+            if (primary !== null && !primary.has(runway.realId()))
+                return [new Finding(Finding.Severity.ERROR, "foreign-runway",
+                    `Runway configuration uses runway ${runway.name}, which is not at the primary airport.`, config)];
+            return [];
+        }));
+    }
+
+    private entryPoints(airspace: Airspace): Finding[] {
+        const beacons = new Set(airspace.beacons.map(b => b.name));
+        const airports = [...(airspace.hasPrimaryAirport() ? [airspace.getPrimaryAirport()] : []), ...airspace.getSecondaryAirports()];
+        return airports.flatMap(airport => Array.from(airport.entryPoints)
+            .filter(e => e.beacon !== undefined && !beacons.has(e.beacon))
+            .map(e => new Finding(Finding.Severity.ERROR, "unknown-beacon",
+                `Entry point at bearing ${e.bearing} of ${airport.code} refers to unknown beacon ${e.beacon}.`, e)));
+    }
+
+    private names(airspace: Airspace): Finding[] {
+        return airspace.checkNames().map(v => new Finding(Finding.Severity.WARNING, "naming-policy",
+            `Fix ${v.fix.name} violates naming policy ${v.policy.name}: ${v.message}.`, v.fix));
+    }
+
+    private beacons(airspace: Airspace): Finding[] {
+        const used = new Set<string>();
+        const positions = new Set<string>();
+        const use = (fix: Fix) => {
+            if (fix instanceof NamedFix)
+                used.add(fix.name);
+            positions.add(`${fix.latitude},${fix.longitude}`);
+        };
+
+        for (const arrival of airspace.arrivals) {
+            use(arrival.beacon);
+            arrival.route.forEach(use);
+        }
+        for (const departure of airspace.departures)
+            departure.route.forEach(use);
+        const airports = [...(airspace.hasPrimaryAirport() ? [airspace.getPrimaryAirport()] : []), ...airspace.getSecondaryAirports()];
+        for (const airport of airports)
+            for (const entryPoint of airport.entryPoints)
+                if (entryPoint.beacon !== undefined)
+                    used.add(entryPoint.beacon);
+        for (const airport of airspace.getSecondaryAirports())
+            use(airport.inboundBeacon);
+
+        return airspace.beacons
+            .filter(b => !used.has(b.name) && !positions.has(`${b.latitude},${b.longitude}`))
+            .map(b => new Finding(Finding.Severity.INFO, "unused-beacon",
+                `Beacon ${b.name} is not used by any route, entry point or airport.`, b));
+    }
+}
+
+export namespace AirspaceValidator {
+    /**
+     * Options for validating an airspace.
+     */
+    export interface Options {
+        /**
+         * Options for checking the {@link VerticalProfile} of arrivals.
+         */
+        profile?: VerticalProfile.Options;
+
+        /**
+         * Parameters of the {@link Hold holds} checked against the airspace boundary and areas.
+         */
+        hold?: Hold.Options;
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * A problem found by validating an airspace.
+ */
+export class Finding {
+    /**
+     * @param severity How severe the problem is.
+     * @param code What kind of problem this is.
+     * @param message Description of the problem.
+     * @param subject The object in which the problem was found, e.g. an {@link Arrival} or a {@link Runway}.
+     */
+    public constructor(
+        public readonly severity: Finding.Severity,
+        public readonly code: Finding.Code,
+        public readonly message: string,
+        public readonly subject: object,
+    ) {}
+
+    /**
+     * Format this finding as a single line, e.g. `error unregistered-runway: Arrival OCK1A uses unregistered runway 09.`
+     */
+    public toString(): string {
+        return `${this.severity} ${this.code}: ${this.message}`;
+    }
+}
+
+export namespace Finding {
+    /**
+     * Severity of a finding.
+     */
+    export const enum Severity {
+        /**
+         * The airspace will not work as intended in the game.
+         */
+        ERROR = "error",
+
+        /**
+         * The airspace works, but probably not as intended.
+         */
+        WARNING = "warning",
+
+        /**
+         * The airspace works, but could be improved.
+         */
+        INFO = "info",
+    }
+
+    /**
+     * Kinds of problems.
+     *
+     *  - `missing-primary-airport` — the {@link Airspace} has no {@link PrimaryAirport}.
+     *  - `altitude-order` — the airspace altitudes are not in the required order or too close together.
+     *  - `runway-elevation` — a runway elevation is more than 1000 feet from the airspace elevation.
+     *  - `no-departure-frequencies` — the airspace has no departure hand-off frequencies.
+     *  - `unregistered-runway` — a route or runway configuration uses a runway that is not registered.
+     *  - `foreign-runway` — a runway configuration uses a runway that is not at the primary airport.
+     *  - `route-without-runway` — a route does not use any registered runway.
+     *  - `unknown-beacon` — an entry point refers to a beacon that is not in the airspace beacons.
+     *  - `unused-beacon` — a beacon is not used by any route, entry point or airport.
+     *  - `long-name` — a route name is longer than the game displays.
+     *  - `steep-descent` — an arrival requires a steeper descent than can be flown, or a step-down with no distance to
+     *    fly it.
+     *  - `climbing-constraint` — an arrival altitude constraint is higher than the one before it.
+     *  - `intercept-above-glideslope` — an arrival intercepts the ILS above the glideslope.
+     *  - `invalid-frequency` — a radio frequency is not a VHF airband channel.
+     *  - `frequency-conflict` — two different stations use the same radio frequency.
+     *  - `airline-frequency-weight` — an airline appearance weight looks like a radio frequency.
+     *  - `arrival-outside-boundary` — an arrival starts outside the airspace boundary.
+     *  - `departure-outside-boundary` — a departure leaves the airspace boundary.
+     *  - `self-intersecting-area` — the edges of an area cross each other.
+     *  - `label-outside-area` — the label of an area is not inside the area.
+     *  - `hold-outside-boundary` — the protected area of a hold extends outside the airspace boundary.
+     *  - `hold-area-conflict` — the protected area of a hold overlaps an area.
+     *  - `naming-policy` — the name of a registered fix violates a {@link Registry.NamingPolicy}.
+     *  - `runway-designator` — the number of a runway end does not match its magnetic bearing.
+     *  - `unused-handoff` — no departure is handed off in the sector of a departure frequency.
+     */
+    export type Code =
+        | "missing-primary-airport"
+        | "altitude-order"
+        | "runway-elevation"
+        | "no-departure-frequencies"
+        | "unregistered-runway"
+        | "foreign-runway"
+        | "route-without-runway"
+        | "unknown-beacon"
+        | "unused-beacon"
+        | "long-name"
+        | "steep-descent"
+        | "climbing-constraint"
+        | "intercept-above-glideslope"
+        | "invalid-frequency"
+        | "frequency-conflict"
+        | "airline-frequency-weight"
+        | "arrival-outside-boundary"
+        | "departure-outside-boundary"
+        | "self-intersecting-area"
+        | "label-outside-area"
+        | "hold-outside-boundary"
+        | "hold-area-conflict"
+        | "naming-policy"
+        | "runway-designator"
+        | "unused-handoff";
+}
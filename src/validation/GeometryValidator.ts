@@ -0,0 +1,200 @@
+import {Airspace} from "../airspace/Airspace.js";
+import {Fix} from "../navigation/Fix.js";
+import {Hold} from "../navigation/Hold.js";
+import {NamedFix} from "../navigation/NamedFix.js";
+import {Area} from "../shapes/Area.js";
+import {Circle} from "../shapes/Circle.js";
+import {CircleArea} from "../shapes/CircleArea.js";
+import {Radius} from "../shapes/Radius.js";
+import {Finding} from "./Finding.js";
+
+type Vector = [x: number, y: number, z: number];
+
+/**
+ * Checks the geometry of an {@link Airspace}: routes against the {@link Airspace#boundary}, and the polygons and labels
+ * of areas.
+ */
+export class GeometryValidator {
+    readonly #hold: Hold.Options;
+
+    /**
+     * @param [hold] Parameters of the holds checked at beacons with a holding pattern.
+     */
+    public constructor(hold: Hold.Options = {}) {
+        this.#hold = hold;
+    }
+
+    /**
+     * Validate the geometry of an airspace.
+     *
+     * @param airspace The airspace to validate.
+     * @returns The problems found.
+     */
+    public validate(airspace: Airspace): Finding[] {
+        return [
+            ...this.arrivals(airspace),
+            ...this.departures(airspace),
+            ...airspace.areas.flatMap(area => this.area(area)),
+            ...this.holds(airspace),
+        ];
+    }
+
+    /**
+     * Get the distance from a fix to the boundary of an airspace.
+     *
+     * @param airspace The airspace.
+     * @param fix The fix.
+     * @returns Distance, in nautical miles. Positive outside the boundary and negative inside it.
+     */
+    public static boundaryDistance(airspace: Airspace, fix: Fix): number {
+        const boundary = airspace.boundary;
+        if (boundary instanceof Radius)
+            return airspace.center.distance(fix) - boundary.radius;
+        const distance = GeometryValidator.edgeDistance(boundary.vertices, fix);
+        return boundary.contains(fix) ? -distance : distance;
+    }
+
+    /**
+     * Find the pairs of edges of a closed polygon that cross each other.
+     *
+     * @param vertices Vertices of the polygon.
+     * @returns Indices of the first vertex of each edge, and the point where they cross.
+     */
+    public static selfIntersections(vertices: ReadonlyArray<Fix>): [i: number, j: number, point: Fix][] {
+        const n = vertices.length;
+        const points = vertices.map(v => GeometryValidator.unit(v.toCartesian()));
+        const intersections: [number, number, Fix][] = [];
+        for (let i = 0; i < n; ++i)
+            for (let j = i + 2; j < n; ++j) {
+                if (i === 0 && j === n - 1)
+                    continue;
+                const point = GeometryValidator.intersection(
+                    points[i]!, points[(i + 1) % n]!, points[j]!, points[(j + 1) % n]!,
+                );
+                if (point !== undefined)
+                    intersections.push([i, j, Fix.fromCartesian(point)]);
+            }
+        return intersections;
+    }
+
+    private static edgeDistance(vertices: ReadonlyArray<Fix>, fix: Fix): number {
+        const p = GeometryValidator.unit(fix.toCartesian());
+        return Math.min(...vertices.map((v, i) => {
+            const a = GeometryValidator.unit(v.toCartesian());
+            const b = GeometryValidator.unit(vertices[(i + 1) % vertices.length]!.toCartesian());
+            const n = GeometryValidator.unit(GeometryValidator.cross(a, b));
+            // closest point on the great circle through a and b, if it lies within the edge
+            const c = GeometryValidator.unit(GeometryValidator.cross(GeometryValidator.cross(n, p), n));
+            const closest = GeometryValidator.onArc(a, b, n, c)
+                ? c
+                : GeometryValidator.angle(p, a) < GeometryValidator.angle(p, b) ? a : b;
+            return GeometryValidator.angle(p, closest) * Fix.R / Fix.NMI;
+        }));
+    }
+
+    private static intersection(a: Vector, b: Vector, c: Vector, d: Vector): Vector | undefined {
+        const n1 = GeometryValidator.unit(GeometryValidator.cross(a, b));
+        const n2 = GeometryValidator.unit(GeometryValidator.cross(c, d));
+        const line = GeometryValidator.cross(n1, n2);
+        if (Math.hypot(...line) < 1e-12)
+            return undefined;
+        const candidate = GeometryValidator.unit(line);
+        for (const p of [candidate, candidate.map(x => -x) as Vector])
+            if (GeometryValidator.onArc(a, b, n1, p) && GeometryValidator.onArc(c, d, n2, p))
+                return p;
+        return undefined;
+    }
+
+    private static onArc(a: Vector, b: Vector, n: Vector, p: Vector): boolean {
+        return GeometryValidator.dot(GeometryValidator.cross(a, p), n) >= 0
+            && GeometryValidator.dot(GeometryValidator.cross(p, b), n) >= 0;
+    }
+
+    private static cross([ax, ay, az]: Vector, [bx, by, bz]: Vector): Vector {
+        return [ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx];
+    }
+
+    private static dot(a: Vector, b: Vector): number {
+        return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+    }
+
+    private static unit(v: Vector): Vector {
+        const length = Math.hypot(...v);
+        return [v[0] / length, v[1] / length, v[2] / length];
+    }
+
+    private static angle(a: Vector, b: Vector): number {
+        return Math.atan2(Math.hypot(...GeometryValidator.cross(a, b)), GeometryValidator.dot(a, b));
+    }
+
+    private static describe(fix: Fix): string {
+        return fix instanceof NamedFix ? fix.name : fix.toDms().join(" ");
+    }
+
+    private static areaName(area: Area | CircleArea): string {
+        return area.name === undefined ? `the ${area.altitude} ft area` : `area ${area.name}`;
+    }
+
+    private arrivals(airspace: Airspace): Finding[] {
+        return airspace.arrivals.flatMap(arrival => {
+            const first = arrival.route[0];
+            if (first === undefined)
+                return [];
+            const distance = GeometryValidator.boundaryDistance(airspace, first);
+            if (distance <= 0)
+                return [];
+            return [new Finding(Finding.Severity.WARNING, "arrival-outside-boundary",
+                `Arrival ${arrival.name} starts at ${GeometryValidator.describe(first)}, ${distance.toFixed(1)} nm outside the airspace boundary.`,
+                first)];
+        });
+    }
+
+    private departures(airspace: Airspace): Finding[] {
+        return airspace.departures.flatMap(departure => departure.route.flatMap(fix => {
+            const distance = GeometryValidator.boundaryDistance(airspace, fix);
+            if (distance <= 0)
+                return [];
+            return [new Finding(Finding.Severity.WARNING, "departure-outside-boundary",
+                `Departure ${departure.name} leaves the airspace at ${GeometryValidator.describe(fix)}, ${distance.toFixed(1)} nm outside the boundary.`,
+                fix)];
+        }));
+    }
+
+    private holds(airspace: Airspace): Finding[] {
+        return airspace.beacons.filter(b => b.holdingPattern !== undefined).flatMap(beacon => {
+            const findings: Finding[] = [];
+            const area = new Hold(beacon, this.#hold).protectedArea();
+            const distance = Math.max(...area.vertices.map(v => GeometryValidator.boundaryDistance(airspace, v)));
+            if (distance > 0)
+                findings.push(new Finding(Finding.Severity.WARNING, "hold-outside-boundary",
+                    `The hold at ${beacon.name} extends ${distance.toFixed(1)} nm outside the airspace boundary.`, beacon));
+            for (const other of airspace.areas) {
+                const shape = other instanceof CircleArea ? new Circle(other.center, other.radius, area.color, 72) : other;
+                if (area.intersection(shape).length > 0)
+                    findings.push(new Finding(Finding.Severity.WARNING, "hold-area-conflict",
+                        `The hold at ${beacon.name} overlaps ${GeometryValidator.areaName(other)}${other.name === undefined ? "" : ` (${other.altitude} ft)`}.`, beacon));
+            }
+            return findings;
+        });
+    }
+
+    private area(area: Area | CircleArea): Finding[] {
+        const name = GeometryValidator.areaName(area);
+        if (area instanceof CircleArea) {
+            const distance = area.center.distance(area.label) - area.radius;
+            if (distance <= 0)
+                return [];
+            return [new Finding(Finding.Severity.WARNING, "label-outside-area",
+                `The label of ${name} is ${distance.toFixed(1)} nm outside the area.`, area)];
+        }
+
+        const findings = GeometryValidator.selfIntersections(area.vertices)
+            .map(([i, j, point]) => new Finding(Finding.Severity.ERROR, "self-intersecting-area",
+                `Edges ${i + 1} and ${j + 1} of ${name} cross at ${GeometryValidator.describe(point)}.`, area));
+        if (!area.contains(area.label))
+            findings.push(new Finding(Finding.Severity.WARNING, "label-outside-area",
+                `The label of ${name} is ${GeometryValidator.edgeDistance(area.vertices, area.label).toFixed(1)} nm outside the area.`,
+                area));
+        return findings;
+    }
+}
@@ -0,0 +1,203 @@
+import {Aircraft} from "../Aircraft.js";
+import {ApproachFix} from "../navigation/ApproachFix.js";
+import {Arrival} from "../navigation/Arrival.js";
+import {Fix} from "../navigation/Fix.js";
+import {Runway} from "../Runway.js";
+import {Finding} from "./Finding.js";
+
+/**
+ * The vertical profile of an {@link Arrival}: the altitude and speed constraints along the route, the distance flown
+ * to each fix, and the highest altitude at each fix from which all later constraints can still be met.
+ */
+export class VerticalProfile {
+    /**
+     * Default descent rate, in ft/min, if no aircraft is given.
+     */
+    public static readonly DESCENT_RATE = 1600;
+
+    /**
+     * Default ground speed, in knots.
+     */
+    public static readonly GROUND_SPEED = 250;
+
+    /**
+     * Feet in a nautical mile.
+     */
+    private static readonly FT_PER_NMI = Fix.NMI / Fix.FT;
+
+    /**
+     * The points of the profile, one for each fix of the route.
+     */
+    public readonly points: ReadonlyArray<VerticalProfile.Point>;
+
+    /**
+     * The steepest descent that can be flown, in feet per nautical mile.
+     */
+    public readonly gradient: number;
+
+    /**
+     * @param arrival The arrival.
+     * @param [options] Profile options.
+     */
+    public constructor(public readonly arrival: Arrival, options: VerticalProfile.Options = {}) {
+        this.gradient = options.gradient
+            ?? (options.aircraft?.descentRate[1] ?? VerticalProfile.DESCENT_RATE) * 60 / (options.groundSpeed ?? VerticalProfile.GROUND_SPEED);
+
+        let distance = 0;
+        const points = arrival.route.map((fix, i, route) => {
+            if (i > 0)
+                distance += route[i - 1]!.distance(fix);
+            return {
+                fix,
+                distance,
+                altitude: fix instanceof ApproachFix ? fix.altitude : undefined,
+                speed: fix instanceof ApproachFix ? fix.speed : undefined,
+                maximumAltitude: Infinity,
+            };
+        });
+        for (let i = points.length - 1; i >= 0; --i) {
+            const point = points[i]!;
+            const next = points[i + 1];
+            point.maximumAltitude = Math.min(
+                point.altitude ?? Infinity,
+                next === undefined ? Infinity : next.maximumAltitude + (next.distance - point.distance) * this.gradient,
+            );
+        }
+        this.points = points;
+    }
+
+    /**
+     * Get the altitude of the glidepath of a runway at a distance from the threshold.
+     *
+     * @param runway The runway.
+     * @param distance Distance from the (displaced) threshold, in nautical miles.
+     * @param [elevation] Elevation of the threshold, in feet. Defaults to the runway elevation, or 0.
+     * @returns Altitude, in feet.
+     */
+    public static glidepathAltitude(runway: Runway, distance: number, elevation: number = runway.elevation ?? 0): number {
+        return elevation + distance * VerticalProfile.FT_PER_NMI * Math.tan(Fix.degToRad(runway.glideslope));
+    }
+
+    /**
+     * Get the point where an ILS is intercepted.
+     *
+     * @param runway The runway.
+     * @param distance Distance from the (displaced) threshold, in nautical miles.
+     */
+    public static interceptPoint(runway: Runway, distance: number): Fix {
+        return runway.thr().destination((runway.localizer + 180) % 360, distance);
+    }
+
+    /**
+     * Check the profile for constraints that cannot be flown.
+     *
+     * @param elevation Elevation, in feet, to use for runways without an elevation.
+     * @returns Descents steeper than {@link gradient}, altitude constraints that increase along the route, and ILS
+     *     intercepts above the glideslope.
+     */
+    public check(elevation: number): Finding[] {
+        const findings: Finding[] = [];
+        const name = this.arrival.name;
+        const constrained = this.points.filter(p => p.altitude !== undefined);
+
+        for (let i = 1; i < constrained.length; ++i) {
+            const previous = constrained[i - 1]!;
+            const point = constrained[i]!;
+            if (point.altitude! > previous.altitude!)
+                findings.push(new Finding(Finding.Severity.WARNING, "climbing-constraint",
+                    `Arrival ${name} altitude constraint rises from ${previous.altitude} to ${point.altitude} feet.`, point.fix));
+            else this.descent(findings, previous.altitude!, point.altitude!, point.distance - previous.distance, point.fix);
+        }
+
+        const termination = this.arrival.termination;
+        const last = this.points[this.points.length - 1];
+        if (termination instanceof Arrival.IlsIntercept && termination.altitude !== undefined && last !== undefined) {
+            const previous = constrained[constrained.length - 1];
+            for (const runway of this.arrival.runways) {
+                const glidepath = VerticalProfile.glidepathAltitude(runway, termination.distance, runway.elevation ?? elevation);
+                if (termination.altitude > glidepath)
+                    findings.push(new Finding(Finding.Severity.WARNING, "intercept-above-glideslope",
+                        `Arrival ${name} intercepts the runway ${runway.name} ILS at ${termination.altitude} feet, above the glideslope at ${Math.round(glidepath)} feet.`,
+                        termination));
+                if (previous !== undefined && previous.altitude! >= termination.altitude) {
+                    const distance = last.distance - previous.distance
+                        + last.fix.distance(VerticalProfile.interceptPoint(runway, termination.distance));
+                    this.descent(findings, previous.altitude!, termination.altitude, distance, termination);
+                }
+            }
+        }
+
+        return findings;
+    }
+
+    private descent(findings: Finding[], from: number, to: number, distance: number, subject: object) {
+        if (from <= to)
+            return;
+        if (distance <= 0) {
+            findings.push(new Finding(Finding.Severity.ERROR, "steep-descent",
+                `Arrival ${this.arrival.name} requires a descent from ${from} to ${to} feet with no distance to fly it.`,
+                subject));
+            return;
+        }
+        const required = (from - to) / distance;
+        if (required > this.gradient)
+            findings.push(new Finding(Finding.Severity.ERROR, "steep-descent",
+                `Arrival ${this.arrival.name} requires a descent from ${from} to ${to} feet over ${distance.toFixed(1)} nm (${Math.round(required)} ft/nm, at most ${Math.round(this.gradient)} ft/nm can be flown).`,
+                subject));
+    }
+}
+
+export namespace VerticalProfile {
+    /**
+     * Options for computing a vertical profile.
+     */
+    export interface Options {
+        /**
+         * The steepest descent that can be flown, in feet per nautical mile. Overrides {@link aircraft} and
+         * {@link groundSpeed}.
+         */
+        gradient?: number;
+
+        /**
+         * Aircraft whose maximum {@link Aircraft#descentRate} is used to determine the steepest descent.
+         * Defaults to a descent rate of {@link VerticalProfile.DESCENT_RATE}.
+         */
+        aircraft?: Aircraft;
+
+        /**
+         * Ground speed, in knots, used to convert the descent rate to a gradient.
+         * @default {@link VerticalProfile.GROUND_SPEED}
+         */
+        groundSpeed?: number;
+    }
+
+    /**
+     * A fix of the route and its constraints.
+     */
+    export interface Point {
+        /**
+         * The fix.
+         */
+        fix: Fix;
+
+        /**
+         * Distance flown along the route from the first fix, in nautical miles.
+         */
+        distance: number;
+
+        /**
+         * Altitude constraint, in feet, if any.
+         */
+        altitude?: number;
+
+        /**
+         * Speed constraint, in KIAS, if any.
+         */
+        speed?: number;
+
+        /**
+         * The highest altitude, in feet, at this fix from which all later altitude constraints can be met.
+         */
+        maximumAltitude: number;
+    }
+}
@@ -0,0 +1,4 @@
+export {AirspaceValidator} from "./AirspaceValidator.js";
+export {Finding} from "./Finding.js";
+export {GeometryValidator} from "./GeometryValidator.js";
+export {VerticalProfile} from "./VerticalProfile.js";